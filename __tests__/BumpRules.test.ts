@@ -0,0 +1,57 @@
+/**
+ * BumpRules 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { BumpRules, maxBumpLevel } from '../src/core/BumpRules'
+import type { ChangelogCommit } from '../src/types/changelog'
+
+/**
+ * 创建测试提交
+ */
+function createCommit(overrides: Partial<ChangelogCommit>): ChangelogCommit {
+  return {
+    hash: 'abc1234',
+    shortHash: 'abc1234',
+    type: 'chore',
+    subject: 'subject',
+    author: { name: 'Test User', email: 'test@example.com' },
+    date: '2024-01-01',
+    ...overrides,
+  }
+}
+
+describe('BumpRules', () => {
+  it('应该按类型、破坏性变更和 trailer 取最高级别', () => {
+    const rules = new BumpRules({
+      types: { docs: 'patch' },
+      trailers: { 'Security-Fix': 'minor' },
+    })
+
+    expect(rules.getCommitLevel(createCommit({ type: 'feat' }))).toBe('minor')
+    expect(rules.getCommitLevel(createCommit({ type: 'docs' }))).toBe('patch')
+    expect(rules.getCommitLevel(createCommit({ type: 'chore' }))).toBeUndefined()
+    expect(rules.getCommitLevel(createCommit({ type: 'fix', breaking: true }))).toBe('major')
+    expect(rules.getCommitLevel(createCommit({
+      type: 'fix',
+      trailers: [{ token: 'security-fix', value: 'CVE-2024-1234' }],
+    }))).toBe('minor')
+
+    expect(rules.getLevel([
+      createCommit({ type: 'fix' }),
+      createCommit({ type: 'feat' }),
+    ])).toBe('minor')
+    expect(maxBumpLevel(undefined, 'patch')).toBe('patch')
+  })
+
+  it('应该对 0.x 版本降一级递增', () => {
+    const rules = new BumpRules()
+
+    expect(rules.adjust('major', '0.4.2')).toBe('minor')
+    expect(rules.adjust('minor', '0.4.2')).toBe('patch')
+    expect(rules.adjust('patch', '0.4.2')).toBe('patch')
+    expect(rules.adjust('major', '1.4.2')).toBe('major')
+    expect(new BumpRules({ preMajor: false }).adjust('major', '0.4.2')).toBe('major')
+    expect(new BumpRules({ breaking: 'minor' }).getCommitLevel(createCommit({ breaking: true }))).toBe('minor')
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * ChangelogFragments 测试
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FragmentManager, fragmentToCommit, parseFragment } from '../src/core/ChangelogFragments'
+
+describe('ChangelogFragments', () => {
+  it('应该解析片段的 front matter 和正文', () => {
+    const { fragment, errors } = parseFragment([
+      '---',
+      'type: feat',
+      'scope: api',
+      'breaking: true',
+      'issues:',
+      '  - "#12"',
+      '  - 34',
+      '---',
+      '新增批量导出接口',
+      '',
+      '支持 CSV 和 JSON。',
+    ].join('\n'), '.changelog/unreleased/export.md', ['feat', 'fix'])
+
+    expect(errors).toEqual([])
+    expect(fragment).toEqual({
+      file: '.changelog/unreleased/export.md',
+      type: 'feat',
+      scope: 'api',
+      breaking: true,
+      issues: ['12', '34'],
+      migration: undefined,
+      content: '新增批量导出接口\n\n支持 CSV 和 JSON。',
+    })
+
+    const commit = fragmentToCommit(fragment!, '2024-05-01', { url: 'https://github.com/o/r', type: 'github' })
+    expect(commit.subject).toBe('新增批量导出接口')
+    expect(commit.body).toBe('支持 CSV 和 JSON。')
+    expect(commit.breakingDescription).toBe('新增批量导出接口')
+    expect(commit.issueLinks).toEqual(['https://github.com/o/r/issues/12', 'https://github.com/o/r/issues/34'])
+  })
+
+  it('应该报告无效的 front matter', () => {
+    expect(parseFragment('只有正文', 'a.md').errors).toEqual(['缺少 front matter'])
+
+    const { fragment, errors } = parseFragment([
+      '---',
+      'type: feature',
+      'breaking: maybe',
+      'owner: me',
+      '---',
+      '',
+    ].join('\n'), 'b.md', ['feat', 'fix'])
+
+    expect(fragment).toBeUndefined()
+    expect(errors).toEqual([
+      '未知字段: owner',
+      '未知类型: feature',
+      'breaking 字段必须为 true 或 false',
+      '正文为空',
+    ])
+  })
+
+  describe('FragmentManager', () => {
+    let cwd: string
+
+    afterEach(() => {
+      rmSync(cwd, { recursive: true, force: true })
+    })
+
+    it('应该校验并归档片段', async () => {
+      cwd = mkdtempSync(join(tmpdir(), 'changelog-fragments-'))
+      mkdirSync(join(cwd, '.changelog/unreleased'), { recursive: true })
+      writeFileSync(join(cwd, '.changelog/unreleased/ok.md'), '---\ntype: fix\n---\n修复导出\n')
+      writeFileSync(join(cwd, '.changelog/unreleased/bad.md'), '---\nscope: api\n---\n缺少类型\n')
+
+      const manager = new FragmentManager({ cwd, types: ['feat', 'fix'] })
+
+      expect(await manager.validate()).toEqual([
+        { file: join('.changelog/unreleased', 'bad.md'), message: '缺少 type 字段' },
+      ])
+      await expect(manager.load()).rejects.toThrow('bad.md')
+
+      const archived = await manager.archive([join('.changelog/unreleased', 'ok.md')], '1.2.0')
+      expect(archived).toEqual([join('.changelog/1.2.0', 'ok.md')])
+      expect(existsSync(join(cwd, '.changelog/1.2.0/ok.md'))).toBe(true)
+      expect(await manager.list()).toEqual([join('.changelog/unreleased', 'bad.md')])
+    })
+  })
+})
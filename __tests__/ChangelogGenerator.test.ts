@@ -0,0 +1,664 @@
+/**
+ * ChangelogGenerator 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { execa } from 'execa'
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ChangelogGenerator, PRESERVE_END, PRESERVE_START } from '../src/core/ChangelogGenerator'
+import { CommitOverrideManager } from '../src/core/CommitOverrides'
+import { logger } from '../src/utils/logger'
+
+/**
+ * 在临时仓库中执行 git 命令
+ */
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execa('git', args, { cwd })
+  return stdout.trim()
+}
+
+/**
+ * 创建提交并返回 hash
+ */
+async function commit(cwd: string, message: string, filename = 'file.txt'): Promise<string> {
+  writeFileSync(join(cwd, filename), `${message}\n${Math.random()}`)
+  await git(cwd, 'add', '.')
+  await git(cwd, 'commit', '-m', message)
+  return git(cwd, 'rev-parse', 'HEAD')
+}
+
+describe('ChangelogGenerator', () => {
+  let repo: string
+
+  beforeEach(async () => {
+    repo = mkdtempSync(join(tmpdir(), 'changelog-generator-'))
+    await git(repo, 'init')
+    await git(repo, 'config', 'user.name', 'Test User')
+    await git(repo, 'config', 'user.email', 'test@example.com')
+    await commit(repo, 'chore: initial commit')
+  })
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true })
+  })
+
+  describe('Revert Handling', () => {
+    it('应该移除同一范围内相互抵消的提交与回滚', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat: keep me')
+      const hash = await commit(repo, 'feat: drop me', 'other.txt')
+      await git(repo, 'revert', '--no-edit', hash)
+
+      const generator = new ChangelogGenerator({ cwd: repo, repositoryUrl: 'https://github.com/o/r' })
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+
+      expect(content.commits.map(c => c.subject)).toEqual(['keep me'])
+      expect(content.sections.find(s => s.type === 'revert')).toBeUndefined()
+    })
+
+    it('应该将回滚早期版本提交的条目放入回滚章节', async () => {
+      const hash = await commit(repo, 'feat: shipped earlier', 'other.txt')
+      await git(repo, 'tag', 'v1.0.0')
+      await git(repo, 'revert', '--no-edit', hash)
+
+      const generator = new ChangelogGenerator({ cwd: repo, repositoryUrl: 'https://github.com/o/r' })
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+      const section = content.sections.find(s => s.type === 'revert')
+
+      expect(section?.commits).toHaveLength(1)
+      expect(section?.commits[0].subject).toBe('feat: shipped earlier')
+      expect(section?.commits[0].revert?.hash).toBe(hash)
+    })
+  })
+
+  describe('Commit Overrides', () => {
+    it('应该应用 git notes 中的覆盖', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      const reworded = await commit(repo, 'feat: stuf')
+      const hidden = await commit(repo, 'fix: internal tweak', 'other.txt')
+      const unconventional = await commit(repo, 'Update readme', 'readme.txt')
+
+      const manager = new CommitOverrideManager({ cwd: repo })
+      await manager.set(reworded, { subject: 'add export to CSV', scope: 'report', breaking: true, migration: 'Use exportCsv()' })
+      await manager.set(hidden, { hidden: true })
+      await manager.set(unconventional, { type: 'docs', subject: 'document setup' })
+
+      const generator = new ChangelogGenerator({ cwd: repo, repositoryUrl: 'https://github.com/o/r' })
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+
+      expect(content.commits.map(c => `${c.type}:${c.subject}`)).toEqual(['docs:document setup', 'feat:add export to CSV'])
+      expect(content.commits[1].scope).toBe('report')
+      expect(content.breakingChanges?.[0].migration).toBe('Use exportCsv()')
+    })
+  })
+
+  describe('Contributors', () => {
+    it('应该按 .mailmap 合并身份并计入共同作者', async () => {
+      writeFileSync(join(repo, '.mailmap'), [
+        'Test User <test@example.com> <test@personal.dev>',
+        'Pair Partner <pair@example.com> <pair@old.dev>',
+      ].join('\n'))
+      await git(repo, 'add', '.mailmap')
+      await git(repo, 'commit', '-m', 'chore: add mailmap')
+      await git(repo, 'tag', 'v1.0.0')
+
+      await commit(repo, 'feat: first feature')
+      await git(repo, 'config', 'user.email', 'test@personal.dev')
+      await commit(repo, 'fix: second fix\n\nCo-authored-by: Old Name <pair@old.dev>', 'other.txt')
+
+      const generator = new ChangelogGenerator({ cwd: repo, repositoryUrl: 'https://github.com/o/r' })
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+
+      expect(content.contributors).toEqual([
+        { name: 'Test User', email: 'test@example.com', username: undefined, commitCount: 2 },
+        { name: 'Pair Partner', email: 'pair@example.com', username: undefined, commitCount: 0, coAuthoredCount: 1 },
+      ])
+      expect(content.stats?.contributorCount).toBe(2)
+    })
+
+    it('展开的 squash 提交只计为一次提交', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'Dashboard improvements (#42)\n\n* feat: add dark mode\n\n* fix: chart overflow')
+      await commit(repo, 'fix: standalone fix', 'other.txt')
+
+      const generator = new ChangelogGenerator({ cwd: repo, expandSquashCommits: true, plugins: ['deduplicate'] })
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+
+      expect(content.commits).toHaveLength(3)
+      expect(content.contributors?.map(c => c.commitCount)).toEqual([2])
+      expect(content.stats?.totalCommits).toBe(2)
+    })
+  })
+
+  describe('Full History', () => {
+    it('应该为每对相邻标签生成一个版本并使用标签日期', async () => {
+      await commit(repo, 'feat: first feature')
+      await execa('git', ['tag', '-a', 'v1.0.0', '-m', 'v1.0.0'], {
+        cwd: repo,
+        env: { GIT_COMMITTER_DATE: '2023-01-15T12:00:00' },
+      })
+      await commit(repo, 'fix: first fix')
+      await execa('git', ['tag', '-a', 'v1.1.0', '-m', 'v1.1.0'], {
+        cwd: repo,
+        env: { GIT_COMMITTER_DATE: '2023-03-20T12:00:00' },
+      })
+      await commit(repo, 'feat: pending feature')
+
+      const generator = new ChangelogGenerator({ cwd: repo, repositoryUrl: 'https://github.com/o/r' })
+      const contents = await generator.generateHistory({ includeUnreleased: true })
+
+      expect(contents.map(c => c.version)).toEqual(['Unreleased', '1.1.0', '1.0.0'])
+      expect(contents.map(c => c.commits.map(commit => commit.subject))).toEqual([
+        ['pending feature'],
+        ['first fix'],
+        ['first feature', 'initial commit'],
+      ])
+      expect(contents[1].date).toBe('2023-03-20')
+      expect(contents[2].date).toBe('2023-01-15')
+      expect(contents[1].compareUrl).toBe('https://github.com/o/r/compare/v1.0.0...v1.1.0')
+
+      const markdown = generator.formatHistory(contents)
+      expect(markdown.indexOf('1.1.0')).toBeLessThan(markdown.indexOf('1.0.0'))
+    })
+
+    it('没有未发布提交时应省略 Unreleased 版本', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+
+      const generator = new ChangelogGenerator({ cwd: repo })
+      const contents = await generator.generateHistory({ includeUnreleased: true })
+
+      expect(contents.map(c => c.version)).toEqual(['1.0.0'])
+    })
+  })
+
+  describe('Plugins', () => {
+    it('应该按声明顺序加载并执行配置中的插件', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat: add feature')
+
+      writeFileSync(join(repo, 'suffix-plugin.mjs'), [
+        'export default (options) => {',
+        '  let suffix = ""',
+        '  return {',
+        '    name: "suffix",',
+        '    init: async () => { await new Promise(r => setTimeout(r, 10)); suffix = options.suffix },',
+        '    hooks: {',
+        '      afterParse: commits => commits.map(c => ({ ...c, subject: c.subject + suffix })),',
+        '    },',
+        '  }',
+        '}',
+      ].join('\n'))
+
+      const calls: string[] = []
+      const generator = new ChangelogGenerator({
+        cwd: repo,
+        output: 'CHANGELOG.md',
+        plugins: [
+          ['./suffix-plugin.mjs', { suffix: ' (a)' }],
+          {
+            name: 'inline',
+            hooks: {
+              beforeParse: (commits) => { calls.push('beforeParse'); return commits },
+              afterParse: (commits) => commits.map(c => ({ ...c, subject: `${c.subject} (b)` })),
+              afterGenerate: (content) => { calls.push('afterGenerate'); return content },
+              beforeWrite: (formatted) => { calls.push('beforeWrite'); return `${formatted}\n<!-- plugin -->` },
+              afterWrite: () => { calls.push('afterWrite') },
+            },
+          },
+        ],
+      })
+
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+      expect(content.commits[0].subject).toBe('add feature (a) (b)')
+
+      await generator.write(content)
+      expect(calls).toEqual(['beforeParse', 'afterGenerate', 'beforeWrite', 'afterWrite'])
+      expect(readFileSync(join(repo, 'CHANGELOG.md'), 'utf-8')).toContain('<!-- plugin -->')
+    })
+
+    it('应该对合并后的完整文件执行 beforeWrite', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat: add feature')
+
+      const written: string[] = []
+      const generator = new ChangelogGenerator({
+        cwd: repo,
+        format: 'json',
+        output: 'CHANGELOG.json',
+        plugins: [{
+          name: 'banner',
+          hooks: {
+            beforeWrite: (formatted) => { written.push(formatted); return `${formatted}\n` },
+          },
+        }],
+      })
+
+      await generator.write(await generator.generate('1.0.0', undefined, 'v1.0.0'))
+      await generator.write(await generator.generate('1.1.0', 'v1.0.0'))
+
+      const data = JSON.parse(readFileSync(join(repo, 'CHANGELOG.json'), 'utf-8'))
+      expect(data.versions.map((v: any) => v.version)).toEqual(['1.1.0', '1.0.0'])
+      expect(JSON.parse(written[1]).versions).toHaveLength(2)
+    })
+
+    it('每个生成器使用自己的配置创建插件，且只创建和初始化一次', async () => {
+      writeFileSync(join(repo, 'count-plugin.mjs'), [
+        'globalThis.__pluginCounts = { outputs: [], init: 0 }',
+        'export default (options, context) => {',
+        '  globalThis.__pluginCounts.outputs.push(context.config.output)',
+        '  return { name: "count", init: () => { globalThis.__pluginCounts.init++ }, hooks: {} }',
+        '}',
+      ].join('\n'))
+
+      for (const output of ['A.md', 'B.md']) {
+        const generator = new ChangelogGenerator({ cwd: repo, output, plugins: [['./count-plugin.mjs', { a: 1 }]] })
+        await generator.generate('1.0.0')
+        await generator.generate('1.0.0')
+      }
+
+      expect((globalThis as any).__pluginCounts).toEqual({ outputs: ['A.md', 'B.md'], init: 2 })
+    })
+
+    it('应该支持内置插件名称并在插件不存在时报错', async () => {
+      const generator = new ChangelogGenerator({ cwd: repo, plugins: ['deduplicate'] })
+      await generator.generate('1.0.0')
+      expect(generator.getPluginManager().getPlugin('deduplicate')).toBeDefined()
+
+      const missing = new ChangelogGenerator({ cwd: repo, plugins: ['changelog-plugin-does-not-exist'] })
+      await expect(missing.generate('1.0.0')).rejects.toThrow('无法加载插件 changelog-plugin-does-not-exist')
+    })
+
+    it('内置插件带选项时应该警告', async () => {
+      const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+      const generator = new ChangelogGenerator({ cwd: repo, plugins: [['deduplicate', { key: 'subject' }]] })
+      await generator.generate('1.0.0')
+
+      expect(warn).toHaveBeenCalledWith('内置插件 deduplicate 不接受选项，已忽略')
+      warn.mockRestore()
+    })
+
+    it('应该支持插件注册的格式化器', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat: add feature')
+
+      const generator = new ChangelogGenerator({
+        cwd: repo,
+        format: 'confluence',
+        plugins: [{
+          name: 'confluence',
+          hooks: {},
+          formatters: {
+            confluence: {
+              format: content => `h2. ${content.version}\n${content.commits.map(c => `* ${c.subject}`).join('\n')}`,
+            },
+          },
+        }],
+      })
+
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+      expect(await generator.render(content)).toBe('h2. 1.1.0\n* add feature')
+      expect(generator.formatHistory([content, content])).toBe('h2. 1.1.0\n* add feature\n\nh2. 1.1.0\n* add feature')
+      expect(() => generator.format(content, 'unknown')).toThrow('未知的输出格式: unknown')
+    })
+  })
+
+  describe('Templates', () => {
+    it('应该使用配置的模板渲染任意输出格式', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat: add <b>feature</b>')
+      writeFileSync(join(repo, 'release.hbs'), '{{title}} {{version}}: {{#each commits}}{{shout subject}}{{/each}}')
+
+      const generator = new ChangelogGenerator({
+        cwd: repo,
+        format: 'html',
+        template: {
+          path: 'release.hbs',
+          helpers: { shout: (text: string) => text.toUpperCase() },
+          variables: { title: 'Release' },
+        },
+      })
+
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+      expect(generator.format(content)).toBe('Release 1.1.0: ADD &lt;B&gt;FEATURE&lt;/B&gt;')
+      expect(generator.format(content, 'json')).toBe('Release 1.1.0: ADD <B>FEATURE</B>')
+    })
+
+    it('应该支持模板预设并覆盖 partial', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat(api): add feature')
+      writeFileSync(join(repo, 'commit.hbs'), '- {{subject}} [{{scope}}]\n')
+
+      const generator = new ChangelogGenerator({
+        cwd: repo,
+        template: { preset: 'keepachangelog', partials: { commit: 'commit.hbs' } },
+      })
+
+      const content = await generator.generate('1.1.0', 'v1.0.0')
+      expect(generator.format(content)).toContain('### Added\n\n- add feature [api]\n')
+    })
+  })
+
+  describe('Unreleased Section', () => {
+    it('应该原地重写 Unreleased 块并在发布时提升为新版本', async () => {
+      writeFileSync(join(repo, 'CHANGELOG.md'), '# Changelog\n\n## [1.0.0] - 2024-01-01\n\n- old entry\n')
+      await git(repo, 'add', '.')
+      await git(repo, 'commit', '-m', 'chore: add changelog')
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat: first feature')
+
+      const generator = new ChangelogGenerator({ cwd: repo, includeAuthors: false, includeCommitHash: false })
+      const read = () => readFileSync(join(repo, 'CHANGELOG.md'), 'utf-8')
+      const count = (text: string, search: string) => text.split(search).length - 1
+
+      await generator.write(await generator.generate('Unreleased'))
+      await generator.write(await generator.generate('Unreleased'))
+      expect(count(read(), '## [Unreleased]')).toBe(1)
+      expect(count(read(), 'first feature')).toBe(1)
+
+      await commit(repo, 'fix: first fix', 'other.txt')
+      await generator.write(await generator.generate('Unreleased'))
+      expect(count(read(), '## [Unreleased]')).toBe(1)
+      expect(read()).toContain('first fix')
+
+      await generator.write(await generator.generate('1.1.0'))
+      const released = read()
+      const today = new Date().toISOString().split('T')[0]
+
+      expect(released.startsWith(`# Changelog\n\n## [Unreleased]\n\n## [1.1.0] - ${today}\n`)).toBe(true)
+      expect(count(released, 'first feature')).toBe(1)
+      expect(released).toContain('## [1.0.0] - 2024-01-01\n\n- old entry')
+    })
+  })
+
+  describe('Fragments', () => {
+    it('应该合并片段条目并在发布后归档', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat: first feature')
+      mkdirSync(join(repo, '.changelog/unreleased'), { recursive: true })
+      writeFileSync(
+        join(repo, '.changelog/unreleased/migration.md'),
+        '---\ntype: fix\nbreaking: true\n---\n数据库需要重新迁移\n'
+      )
+
+      const generator = new ChangelogGenerator({ cwd: repo })
+      const content = await generator.generate('1.1.0')
+
+      expect(content.commits.map(c => c.subject)).toEqual(['first feature', '数据库需要重新迁移'])
+      expect(content.sections.find(s => s.type === 'fix')?.commits[0].fragment).toBe(
+        join('.changelog/unreleased', 'migration.md')
+      )
+      expect(content.breakingChanges?.map(bc => bc.description)).toEqual(['数据库需要重新迁移'])
+      expect(content.stats?.totalCommits).toBe(1)
+      expect(content.contributors).toHaveLength(1)
+
+      const history = await generator.generate('1.0.0', undefined, 'v1.0.0')
+      expect(history.commits.some(c => c.fragment)).toBe(false)
+
+      expect(await generator.archiveFragments(content)).toEqual([join('.changelog/1.1.0', 'migration.md')])
+      expect((await generator.generate('1.2.0')).commits.some(c => c.fragment)).toBe(false)
+    })
+
+    it('应该在启用去重插件时保留所有片段', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      mkdirSync(join(repo, '.changelog/unreleased'), { recursive: true })
+      writeFileSync(join(repo, '.changelog/unreleased/a.md'), '---\ntype: feat\n---\n新增导出\n')
+      writeFileSync(join(repo, '.changelog/unreleased/b.md'), '---\ntype: fix\n---\n修复导入\n')
+
+      const generator = new ChangelogGenerator({ cwd: repo, plugins: ['deduplicate'] })
+      const content = await generator.generate('1.1.0')
+
+      expect(content.commits.filter(c => c.fragment).map(c => c.hash)).toEqual([
+        `fragment:${join('.changelog/unreleased', 'a.md')}`,
+        `fragment:${join('.changelog/unreleased', 'b.md')}`,
+      ])
+      expect(await generator.archiveFragments(content)).toHaveLength(2)
+    })
+  })
+
+  describe('Release Intro', () => {
+    it('应该从版本简介文件或附注标签读取简介', async () => {
+      await git(repo, 'tag', '-a', 'v1.0.0', '-m', '首个正式版本。\n\n感谢所有测试者。')
+      await commit(repo, 'feat: first feature')
+      mkdirSync(join(repo, '.changelog/intros'), { recursive: true })
+      writeFileSync(join(repo, '.changelog/intros/1.1.0.md'), '本次发布聚焦导出功能。\n')
+
+      const generator = new ChangelogGenerator({ cwd: repo, includeAuthors: false })
+      const content = await generator.generate('1.1.0')
+
+      expect(content.intro).toBe('本次发布聚焦导出功能。')
+      expect(generator.format(content)).toMatch(/^## \[1\.1\.0\] - \S+\n\n本次发布聚焦导出功能。\n/)
+      expect(JSON.parse(generator.format(content, 'json')).intro).toBe('本次发布聚焦导出功能。')
+      expect(generator.format(content, 'html')).toContain('<div class="version-intro">')
+
+      const history = await generator.generateHistory()
+      expect(history[0].intro).toBe('首个正式版本。\n\n感谢所有测试者。')
+
+      await git(repo, 'tag', '-a', 'v1.1.0', '-m', 'Release v1.1.0')
+      await git(repo, 'tag', 'v1.2.0')
+      expect((await generator.generate('1.2.0', 'v1.1.0', 'v1.2.0')).intro).toBeUndefined()
+    })
+
+    it('应该按配置的 tagMessage 模板忽略自动生成的标签消息', async () => {
+      await git(repo, 'tag', '-a', 'v1.0.0', '-m', 'chore: release v1.0.0')
+      await commit(repo, 'feat: first feature')
+      await git(repo, 'tag', '-a', 'v1.1.0', '-m', 'Release v1.1.0')
+
+      const generator = new ChangelogGenerator({ cwd: repo, release: { tagMessage: 'chore: release {tag}' } })
+      expect((await generator.generate('1.0.0', undefined, 'v1.0.0')).intro).toBeUndefined()
+      expect((await generator.generate('1.1.0', 'v1.0.0', 'v1.1.0')).intro).toBe('Release v1.1.0')
+    })
+  })
+
+  describe('Section Rules', () => {
+    it('应该按修改的文件和 scope 将提交归入规则章节', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      mkdirSync(join(repo, 'src/api'), { recursive: true })
+      await commit(repo, 'fix: validate user payload', 'src/api/users.ts')
+      await commit(repo, 'chore(deps): bump chalk')
+      await commit(repo, 'feat: add dashboard')
+
+      const generator = new ChangelogGenerator({
+        cwd: repo,
+        sectionRules: [
+          { section: 'API changes', files: ['src/api/**'], priority: 0 },
+          { section: 'Dependencies', type: 'chore', scope: 'deps' },
+        ],
+      })
+      const content = await generator.generate('1.1.0')
+
+      expect(content.sections.map(s => [s.title, s.commits.map(c => c.subject)])).toEqual([
+        ['API changes', ['validate user payload']],
+        ['✨ 新功能', ['add dashboard']],
+        ['Dependencies', ['bump chalk']],
+      ])
+    })
+  })
+
+  describe('Exclusions', () => {
+    it('应该按作者、消息、trailer 和路径排除提交并统计数量', async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      mkdirSync(join(repo, 'test'), { recursive: true })
+      await commit(repo, 'feat: keep me')
+      await commit(repo, 'fix: [skip changelog] tweak', 'a.txt')
+      await commit(repo, 'fix: internal\n\nChangelog: skip', 'b.txt')
+      await commit(repo, 'test: cover parser', 'test/parser.test.ts')
+      await git(
+        repo, '-c', 'user.name=dependabot[bot]', '-c', 'user.email=bot@example.com',
+        'commit', '--allow-empty', '-m', 'chore(deps): bump chalk'
+      )
+
+      const generator = new ChangelogGenerator({
+        cwd: repo,
+        exclude: {
+          authors: [/\[bot\]/],
+          messages: ['\\[skip changelog\\]'],
+          paths: ['test/**'],
+        },
+      })
+      const content = await generator.generate('1.1.0')
+
+      expect(content.commits.map(c => c.subject)).toEqual(['keep me'])
+      expect(content.stats?.excluded).toEqual({
+        total: 4,
+        byReason: { author: 1, message: 1, trailer: 1, paths: 1 },
+      })
+    })
+  })
+
+  describe('Version Block Replacement', () => {
+    const read = () => readFileSync(join(repo, 'CHANGELOG.md'), 'utf-8')
+    const count = (text: string, search: string) => text.split(search).length - 1
+
+    it('应该原地替换同版本块并保留手写文本', async () => {
+      await commit(repo, 'feat: first feature')
+
+      const generator = new ChangelogGenerator({ cwd: repo, includeAuthors: false, includeCommitHash: false })
+      await generator.write(await generator.generate('1.4.0'))
+
+      const note = `${PRESERVE_START}\n手写的发布说明\n${PRESERVE_END}`
+      writeFileSync(
+        join(repo, 'CHANGELOG.md'),
+        read().replace('### ', `${note}\n\n### `) + '\n## [1.3.0] - 2024-01-01\n\n- old entry\n'
+      )
+
+      await commit(repo, 'fix: first fix', 'other.txt')
+      await generator.write(await generator.generate('1.4.0'))
+      const text = read()
+
+      expect(count(text, '## [1.4.0]')).toBe(1)
+      expect(count(text, note)).toBe(1)
+      expect(text).toContain('first fix')
+      expect(text.indexOf(note)).toBeLessThan(text.indexOf('first fix'))
+      expect(text).toContain('## [1.3.0] - 2024-01-01\n\n- old entry')
+    })
+
+    it('应该识别带前导词的预设版本标题', async () => {
+      await commit(repo, 'feat: first feature')
+
+      const generator = new ChangelogGenerator({ cwd: repo, template: { preset: 'corporate' } })
+      await generator.write(await generator.generate('Unreleased'))
+      await generator.write(await generator.generate('Unreleased'))
+      expect(count(read(), '## Release Unreleased')).toBe(1)
+
+      await generator.write(await generator.generate('1.1.0'))
+      await generator.write(await generator.generate('1.1.0'))
+      const text = read()
+
+      expect(count(text, '## Release 1.1.0')).toBe(1)
+      expect(count(text, 'Unreleased')).toBe(1)
+      expect(count(text, 'first feature')).toBe(1)
+    })
+
+    it('应该原地替换 JSON 中的同版本条目', async () => {
+      await commit(repo, 'feat: first feature')
+
+      const generator = new ChangelogGenerator({
+        cwd: repo,
+        format: 'json',
+        output: 'CHANGELOG.json',
+        includeAuthors: false,
+      })
+      await generator.write(await generator.generate('1.4.0'))
+
+      const file = join(repo, 'CHANGELOG.json')
+      const data = JSON.parse(readFileSync(file, 'utf-8'))
+      data.preserved = '手写的发布说明'
+      writeFileSync(file, JSON.stringify(data))
+
+      await generator.write(await generator.generate('1.4.0'))
+      const merged = JSON.parse(readFileSync(file, 'utf-8'))
+
+      expect(merged.versions).toHaveLength(1)
+      expect(merged.versions[0].version).toBe('1.4.0')
+      expect(merged.versions[0].preserved).toBe('手写的发布说明')
+    })
+
+    it('发布时应该用新版本替换 JSON 中的 Unreleased 条目并保留新的 Unreleased 条目', async () => {
+      await commit(repo, 'feat: first feature')
+
+      const generator = new ChangelogGenerator({ cwd: repo, format: 'json', output: 'CHANGELOG.json' })
+      const file = join(repo, 'CHANGELOG.json')
+      await generator.write(await generator.generate('Unreleased'))
+      await generator.write(await generator.generate('Unreleased'))
+      expect(JSON.parse(readFileSync(file, 'utf-8')).versions.map((v: any) => v.version)).toEqual(['Unreleased'])
+
+      await generator.write(await generator.generate('1.1.0'))
+      const merged = JSON.parse(readFileSync(file, 'utf-8'))
+
+      expect(merged.versions.map((v: any) => v.version)).toEqual(['Unreleased', '1.1.0'])
+      expect(merged.versions[0].commits).toEqual([])
+      expect(merged.versions[1].commits.map((c: any) => c.subject)).toContain('first feature')
+    })
+  })
+
+  describe('Version Recommendation', () => {
+    it('应该基于生成 Changelog 时的提交推荐版本', async () => {
+      await git(repo, 'tag', 'v1.2.3')
+      await commit(repo, 'fix: small fix')
+      await commit(repo, 'feat!: internal api', 'other.txt')
+      mkdirSync(join(repo, '.changelog/unreleased'), { recursive: true })
+
+      const generator = new ChangelogGenerator({ cwd: repo, exclude: { messages: [/internal api/] } })
+      const patch = await generator.recommendVersion('1.2.3', 'v1.2.3')
+      expect(patch.result.recommended.type).toBe('patch')
+
+      writeFileSync(join(repo, '.changelog/unreleased/drop.md'), '---\ntype: feat\nbreaking: true\n---\n移除旧接口\n')
+      const major = await generator.recommendVersion('1.2.3', 'v1.2.3')
+
+      expect(major.commits.map(c => c.subject)).toEqual(['small fix', '移除旧接口'])
+      expect(major.result.recommended).toMatchObject({ type: 'major', version: '2.0.0' })
+      expect(major.confident).toBe(true)
+      expect(major.threshold).toBe(0.7)
+    })
+  })
+
+  describe('Prerelease Channels', () => {
+    const subjects = (content: { commits: { subject: string }[] }) => content.commits.map(c => c.subject).sort()
+
+    beforeEach(async () => {
+      await git(repo, 'tag', 'v1.0.0')
+      await commit(repo, 'feat: beta feature')
+      await git(repo, 'tag', 'v2.0.0-beta.1')
+      await commit(repo, 'fix: rc fix', 'other.txt')
+      await git(repo, 'tag', 'v2.0.0-rc.1')
+      await commit(repo, 'fix: final fix', 'third.txt')
+    })
+
+    it('应该让正式版本汇总上一个正式版本以来的变更', async () => {
+      const generator = new ChangelogGenerator({ cwd: repo, includeAuthors: false })
+
+      const stable = await generator.generate('2.0.0')
+      expect(subjects(stable)).toEqual(['beta feature', 'final fix', 'rc fix'])
+      expect(stable.prereleases?.map(p => p.version)).toEqual(['2.0.0-beta.1', '2.0.0-rc.1'])
+      expect(generator.format(stable)).toContain('**Prereleases**: 2.0.0-beta.1, 2.0.0-rc.1')
+
+      const rc = await generator.generate('2.0.0-rc.2')
+      expect(subjects(rc)).toEqual(['final fix'])
+      expect(rc.prereleases).toBeUndefined()
+
+      const separate = new ChangelogGenerator({ cwd: repo, prerelease: { mode: 'separate' } })
+      expect(subjects(await separate.generate('2.0.0'))).toEqual(['final fix'])
+    })
+
+    it('应该在 collapse 模式下移除被汇总的预发布版本块', async () => {
+      const generator = new ChangelogGenerator({ cwd: repo, includeAuthors: false, prerelease: { mode: 'collapse' } })
+      await generator.writeHistory(await generator.generateHistory())
+
+      const read = () => readFileSync(join(repo, 'CHANGELOG.md'), 'utf-8')
+      expect(read()).toContain('## [2.0.0-rc.1]')
+
+      await generator.write(await generator.generate('2.0.0'))
+      expect(read()).not.toContain('2.0.0-beta.1]')
+      expect(read()).not.toContain('2.0.0-rc.1]')
+      expect(read()).toContain('## [2.0.0]')
+      expect(read()).toContain('## [1.0.0]')
+
+      await git(repo, 'tag', 'v2.0.0')
+      const history = await generator.generateHistory()
+      expect(history.map(content => content.version)).toEqual(['2.0.0', '1.0.0'])
+      expect(subjects(history[0])).toEqual(['beta feature', 'final fix', 'rc fix'])
+    })
+  })
+})
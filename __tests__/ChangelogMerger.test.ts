@@ -214,6 +214,37 @@ describe('ChangelogMerger', () => {
       expect(result.version).toBe('unknown')
       expect(result.commits).toHaveLength(0)
     })
+
+    it('应该按章节规则分组合并后的提交', async () => {
+      const merger = new ChangelogMerger()
+      const author = { name: 'Test', email: 'test@example.com' }
+      const sources: MergeSource[] = [
+        { type: 'chore', scope: 'deps', subject: 'bump chalk', hash: 'a1' },
+        { type: 'feat', subject: 'add export', hash: 'b2' },
+      ].map((commit, index) => {
+        const path = join(TEST_DIR, `${index}.json`)
+        writeFileSync(path, JSON.stringify({
+          version: '1.0.0',
+          date: '2024-01-01',
+          commits: [{ ...commit, shortHash: commit.hash, author, date: '2024-01-01' }],
+        }))
+        return { path, format: 'json' }
+      })
+
+      const result = await merger.merge(sources, {
+        strategy: 'by-date',
+        deduplicate: true,
+        deduplicateKey: 'hash',
+        preservePackagePrefix: false,
+        outputFormat: 'markdown',
+        sectionRules: [{ section: 'Dependencies', type: 'chore', scope: 'deps' }],
+      })
+
+      expect(result.sections.map(s => [s.title, s.commits.map(c => c.subject)])).toEqual([
+        ['✨ 新功能', ['add export']],
+        ['Dependencies', ['bump chalk']],
+      ])
+    })
   })
 
   describe('Property-Based Tests', () => {
@@ -0,0 +1,39 @@
+/**
+ * CommitOverrides 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseCommitOverride, formatCommitOverride } from '../src/core/CommitOverrides'
+
+describe('CommitOverrides', () => {
+  it('应该解析 note 中的覆盖项', () => {
+    const override = parseCommitOverride([
+      'subject: add export to CSV',
+      'Type: feat',
+      'scope:',
+      'breaking: yes',
+      'migration: Replace export() with exportCsv().',
+      'Old exports keep working until 3.0.',
+      'hidden: false',
+    ].join('\n'))
+
+    expect(override).toEqual({
+      subject: 'add export to CSV',
+      type: 'feat',
+      scope: '',
+      breaking: true,
+      migration: 'Replace export() with exportCsv().\nOld exports keep working until 3.0.',
+      hidden: false,
+    })
+  })
+
+  it('应该忽略未知的行', () => {
+    expect(parseCommitOverride('just a note')).toEqual({})
+  })
+
+  it('序列化后应该能解析回原值', () => {
+    const override = { subject: 'better wording', breaking: false, migration: 'line 1\nline 2' }
+
+    expect(parseCommitOverride(formatCommitOverride(override))).toEqual(override)
+  })
+})
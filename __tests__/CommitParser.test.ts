@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import { CommitParser } from '../src/core/CommitParser'
+import { CommitParser, parseTrailers, getCommitKey } from '../src/core/CommitParser'
 import type { GitCommit } from '../src/types/changelog'
 
 describe('CommitParser', () => {
@@ -329,5 +329,214 @@ describe('CommitParser', () => {
       expect(result.suggestions!.some(s => s.includes('auth'))).toBe(true)
     })
   })
-})
 
+  describe('Conventional Commits Footer', () => {
+    it('应该识别 ! 破坏性变更标记', () => {
+      const parser = new CommitParser()
+      const result = parser.parseCommit({
+        ...mockCommit,
+        subject: 'feat(api)!: drop v1 endpoints',
+        body: undefined,
+      })
+
+      expect(result?.type).toBe('feat')
+      expect(result?.scope).toBe('api')
+      expect(result?.subject).toBe('drop v1 endpoints')
+      expect(result?.breaking).toBe(true)
+    })
+
+    it('应该将 footer 解析为 trailers', () => {
+      const trailers = parseTrailers([
+        'Introduce a request id.',
+        '',
+        'Reviewed-by: Z',
+        'Refs #133',
+        'Co-authored-by: Jane <jane@example.com>',
+      ].join('\n'))
+
+      expect(trailers).toEqual([
+        { token: 'Reviewed-by', value: 'Z' },
+        { token: 'Refs', value: '133' },
+        { token: 'Co-authored-by', value: 'Jane <jane@example.com>' },
+      ])
+    })
+
+    it('应该支持多行 BREAKING CHANGE 值', () => {
+      const parser = new CommitParser()
+      const result = parser.parseCommit({
+        ...mockCommit,
+        body: 'BREAKING CHANGE: `extends` key is now used for\nextending other config files\nRefs: #42',
+      })
+
+      expect(result?.breaking).toBe(true)
+      expect(result?.breakingDescription).toBe('`extends` key is now used for\nextending other config files')
+      expect(result?.issues).toContain('42')
+      expect(result?.trailers?.map(t => t.token)).toEqual(['BREAKING CHANGE', 'Refs'])
+    })
+
+    it('不应该把正文中的普通段落当作 footer', () => {
+      expect(parseTrailers('Note: this is prose\n\nMore prose here')).toEqual([])
+    })
+  })
+
+  describe('Revert Commits', () => {
+    it('应该识别 git revert 生成的提交', () => {
+      const parser = new CommitParser({
+        repositoryInfo: { url: 'https://github.com/o/r', type: 'github' },
+      })
+      const result = parser.parseCommit({
+        ...mockCommit,
+        subject: 'Revert "feat(auth): add user login"',
+        body: 'This reverts commit 0123456789abcdef0123456789abcdef01234567.',
+      })
+
+      expect(result?.type).toBe('revert')
+      expect(result?.subject).toBe('feat(auth): add user login')
+      expect(result?.revert?.hash).toBe('0123456789abcdef0123456789abcdef01234567')
+      expect(result?.revert?.link).toBe('https://github.com/o/r/commit/0123456789abcdef0123456789abcdef01234567')
+    })
+  })
+
+  describe('Issue References', () => {
+    const repositoryInfo = { url: 'https://gitlab.com/acme/app', type: 'gitlab' as const }
+
+    it('应该按自定义规则提取引用并生成链接', () => {
+      const parser = new CommitParser({
+        repositoryInfo,
+        issuePatterns: [
+          { type: 'jira', projects: ['PAY'], url: 'https://acme.atlassian.net/browse/{ref}' },
+          { type: 'gitlab-mr' },
+          { type: 'cross-repo' },
+        ],
+      })
+      const result = parser.parseCommit({
+        ...mockCommit,
+        subject: 'fix(pay): PAY-1234 handle refunds (#7)',
+        body: 'Follow-up to !56 and org/lib#12, unrelated UTF-8.\n\nCloses #123',
+      })
+
+      expect(result?.pr).toBe('7')
+      expect(result?.issues).toEqual(['123', 'PAY-1234', '!56', 'org/lib#12'])
+      expect(result?.issueLinks).toEqual([
+        'https://gitlab.com/acme/app/issues/123',
+        'https://acme.atlassian.net/browse/PAY-1234',
+        'https://gitlab.com/acme/app/-/merge_requests/56',
+        'https://gitlab.com/org/lib/-/issues/12',
+      ])
+    })
+
+    it('项目 key 类规则应该要求 projects，避免匹配 UTF-8 等文本', () => {
+      expect(() => new CommitParser({ issuePatterns: [{ type: 'jira' }] })).toThrow('jira 引用规则需要指定 projects')
+      expect(() => new CommitParser({ issuePatterns: [{ type: 'linear', projects: [] }] })).toThrow('linear')
+
+      const parser = new CommitParser({ issuePatterns: [{ type: 'linear', projects: ['ENG'] }] })
+      const result = parser.parseCommit({ ...mockCommit, subject: 'fix: ENG-7 use UTF-8 and SHA-256', body: '' })
+      expect(result?.issues).toEqual(['ENG-7'])
+    })
+
+    it('仓库 URL 无法解析时应该跳过依赖域名的链接', () => {
+      const parser = new CommitParser({
+        repositoryInfo: { url: 'git@example.com:org/app', type: 'other' },
+        issuePatterns: [{ type: 'cross-repo' }],
+      })
+      const result = parser.parseCommit({ ...mockCommit, subject: 'fix: see org/lib#12', body: '' })
+
+      expect(result?.issues).toEqual(['org/lib#12'])
+      expect(result?.issueLinks?.filter(Boolean) ?? []).toEqual([])
+    })
+
+    it('没有仓库信息时仍应生成不依赖仓库的链接', () => {
+      const parser = new CommitParser({
+        issuePatterns: [
+          { pattern: /\bENG-\d+\b/, url: 'https://linear.app/acme/issue/{ref}' },
+          { type: 'gitlab-mr' },
+        ],
+      })
+      const result = parser.parseCommit({ ...mockCommit, subject: 'feat: ENG-42 sync !3', body: '' })
+
+      expect(result?.issues).toEqual(['ENG-42', '!3'])
+      expect(result?.issueLinks).toEqual(['https://linear.app/acme/issue/ENG-42', ''])
+    })
+  })
+
+  describe('Squash Commits', () => {
+    const squashCommit: GitCommit = {
+      ...mockCommit,
+      subject: 'Dashboard improvements (#42)',
+      body: [
+        '* feat(ui): add dark mode toggle',
+        '',
+        '* fix: correct chart overflow',
+        '',
+        'BREAKING CHANGE: chart height is now fixed',
+        '',
+        '* chore: bump deps',
+        '',
+        'Co-authored-by: Jane <jane@example.com>',
+      ].join('\n'),
+    }
+
+    it('默认不展开 squash 提交', () => {
+      const parser = new CommitParser()
+
+      expect(parser.parse([squashCommit])).toHaveLength(0)
+    })
+
+    it('应该将提交列表展开为独立条目并继承 PR、作者和日期', () => {
+      const parser = new CommitParser({
+        expandSquashCommits: true,
+        hiddenTypes: ['chore'],
+        repositoryInfo: { url: 'https://github.com/o/r', type: 'github' },
+      })
+      const result = parser.parse([squashCommit])
+
+      expect(result.map(c => c.type)).toEqual(['feat', 'fix'])
+      expect(result[0].scope).toBe('ui')
+      expect(result[0].pr).toBe('42')
+      expect(result[0].prLink).toBe('https://github.com/o/r/pull/42')
+      expect(result[1].author.name).toBe('John Doe')
+      expect(result[1].date).toBe('2025-01-01')
+      expect(result[1].breaking).toBe(true)
+      expect(result[1].breakingDescription).toBe('chart height is now fixed')
+      expect(result[1].trailers?.some(t => t.token === 'Co-authored-by')).toBeFalsy()
+    })
+
+    it('没有可解析的列表项时按普通提交处理', () => {
+      const parser = new CommitParser({ expandSquashCommits: true })
+      const result = parser.parse([{ ...mockCommit, body: '* just a note' }])
+
+      expect(result).toHaveLength(1)
+      expect(result[0].subject).toBe('add user login')
+    })
+
+    it('标题不带 PR 引用的提交不展开', () => {
+      const parser = new CommitParser({ expandSquashCommits: true })
+      const result = parser.parse([{ ...mockCommit, body: '- docs: update usage' }])
+
+      expect(result).toHaveLength(1)
+      expect(result[0].type).toBe('feat')
+      expect(result[0].subject).toBe('add user login')
+    })
+
+    it('列表项均被过滤时按普通提交处理', () => {
+      const parser = new CommitParser({ expandSquashCommits: true, hiddenTypes: ['chore'] })
+      const result = parser.parse([{
+        ...mockCommit,
+        subject: 'feat: dashboard (#42)',
+        body: '* chore: bump deps',
+      }])
+
+      expect(result).toHaveLength(1)
+      expect(result[0].subject).toBe('dashboard (#42)')
+    })
+
+    it('展开条目应有独立的标识', () => {
+      const parser = new CommitParser({ expandSquashCommits: true })
+      const result = parser.parse([squashCommit])
+
+      expect(result.every(c => c.hash === squashCommit.hash && c.squashOf === squashCommit.hash)).toBe(true)
+      expect(result.map(c => c.squashIndex)).toEqual([0, 1, 2])
+      expect(new Set(result.map(getCommitKey)).size).toBe(3)
+    })
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * CommitPresets 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  resolvePreset,
+  resolvePresetTypes,
+  registerPreset,
+  getPresetNames,
+} from '../src/core/CommitPresets'
+import { CommitParser } from '../src/core/CommitParser'
+import { CommitLinter } from '../src/core/CommitLinter'
+import { DEFAULT_CONFIG } from '../src/types/config'
+import type { GitCommit } from '../src/types/changelog'
+import type { CommitPreset } from '../src/types/preset'
+
+function createCommit(subject: string): GitCommit {
+  return {
+    hash: 'abc123def456',
+    shortHash: 'abc123d',
+    subject,
+    body: '',
+    authorName: 'John Doe',
+    authorEmail: 'john@example.com',
+    date: '2025-01-01',
+    timestamp: 1704067200,
+  }
+}
+
+describe('CommitPresets', () => {
+  it('默认使用 angular 预设', () => {
+    const preset = resolvePreset()
+
+    expect(preset.name).toBe('angular')
+    expect(preset.parseHeader('feat(auth)!: add login')).toEqual({
+      type: 'feat',
+      scope: 'auth',
+      subject: 'add login',
+      breaking: true,
+    })
+  })
+
+  it('gitmoji 预设应支持 shortcode 与 unicode emoji', () => {
+    const preset = resolvePreset('gitmoji')
+
+    expect(preset.parseHeader(':sparkles: add dark mode')).toMatchObject({ type: 'feat', subject: 'add dark mode' })
+    expect(preset.parseHeader('🐛 (ui): fix overflow')).toMatchObject({ type: 'fix', scope: 'ui', subject: 'fix overflow' })
+    expect(preset.parseHeader('♻️ simplify parser')).toMatchObject({ type: 'refactor' })
+    expect(preset.parseHeader(':boom: drop node 16')?.breaking).toBe(true)
+    expect(preset.parseHeader('add something')).toBeNull()
+  })
+
+  it('atom 预设只接受 shortcode', () => {
+    const preset = resolvePreset('atom')
+
+    expect(preset.parseHeader(':racehorse: speed up startup')).toMatchObject({ type: 'perf' })
+    expect(preset.parseHeader('🐛 fix crash')).toBeNull()
+  })
+
+  it('eslint 预设应解析标签', () => {
+    const preset = resolvePreset('eslint')
+
+    expect(preset.parseHeader('Fix: handle empty config (fixes #12)')).toMatchObject({ type: 'fix' })
+    expect(preset.parseHeader('Breaking: remove legacy API')).toMatchObject({ type: 'feat', breaking: true })
+    expect(preset.parseHeader('fix: lowercase tag')).toBeNull()
+  })
+
+  it('jquery 预设应将组件作为 scope 并推断类型', () => {
+    const preset = resolvePreset('jquery')
+
+    expect(preset.parseHeader('Core: Fix memory leak in data cache')).toEqual({
+      type: 'fix',
+      scope: 'Core',
+      subject: 'Fix memory leak in data cache',
+    })
+    expect(preset.parseHeader('Ajax: Add support for timeouts')).toMatchObject({ type: 'feat' })
+  })
+
+  it('未知预设应抛出错误', () => {
+    expect(() => resolvePreset('unknown')).toThrow('未知的提交规范预设')
+  })
+
+  it('应支持注册自定义预设', () => {
+    const custom: CommitPreset = {
+      name: 'ticket',
+      parseHeader(header) {
+        const match = header.match(/^\[(\w+)\] (.+)$/)
+        return match ? { type: match[1].toLowerCase(), subject: match[2] } : null
+      },
+      types: [{ type: 'feature', section: 'Features', priority: 1 }],
+    }
+    registerPreset(custom)
+
+    expect(getPresetNames()).toContain('ticket')
+
+    const parser = new CommitParser({ preset: 'ticket' })
+    const result = parser.parseCommit(createCommit('[FEATURE] add export'))
+
+    expect(result?.type).toBe('feature')
+    expect(result?.subject).toBe('add export')
+  })
+
+  it('未自定义 types 时使用预设的类型映射', () => {
+    const preset = resolvePreset('eslint')
+    const custom = [{ type: 'feat', section: 'New', priority: 1 }]
+
+    expect(resolvePresetTypes(preset)).toBe(preset.types)
+    expect(resolvePresetTypes(preset, DEFAULT_CONFIG.types)).toBe(preset.types)
+    expect(resolvePresetTypes(preset, custom)).toBe(custom)
+  })
+
+  it('CommitParser 应按预设解析提交', () => {
+    const parser = new CommitParser({ preset: 'gitmoji' })
+
+    expect(parser.parseCommit(createCommit(':bug: fix login redirect'))?.type).toBe('fix')
+    expect(parser.parseCommit(createCommit('fix: conventional header'))).toBeNull()
+  })
+
+  it('CommitLinter 应使用预设的规则', () => {
+    const linter = new CommitLinter({ preset: 'eslint' })
+    const result = linter.lintCommits([
+      createCommit('Fix: Handle empty config'),
+      createCommit('fix: handle empty config'),
+    ])
+
+    expect(result.validCommits).toBe(1)
+    expect(result.issues[0].type).toBe('invalid_format')
+    expect(result.issues[0].suggestion).toBe('Tag: subject')
+  })
+})
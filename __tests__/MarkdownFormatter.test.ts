@@ -91,5 +91,47 @@ describe('MarkdownFormatter', () => {
     expect(result).toContain('💥 Breaking Changes')
     expect(result).toContain('API changed')
   })
+
+  it('应该渲染 Issue 链接', () => {
+    const commit = mockContent.sections[0].commits[0]
+    const contentWithIssues: ChangelogContent = {
+      ...mockContent,
+      sections: [{
+        ...mockContent.sections[0],
+        commits: [{
+          ...commit,
+          issues: ['12', 'PAY-1234', '!56'],
+          issueLinks: ['https://github.com/test/repo/issues/12', 'https://acme.atlassian.net/browse/PAY-1234', ''],
+        }],
+      }],
+    }
+
+    const formatter = new MarkdownFormatter()
+    const result = formatter.format(contentWithIssues)
+
+    expect(result).toContain('([#12](https://github.com/test/repo/issues/12), [PAY-1234](https://acme.atlassian.net/browse/PAY-1234))')
+    expect(result).not.toContain('!56')
+  })
+
+  it('应该在条目下渲染非破坏性变更的迁移说明', () => {
+    const commit = mockContent.sections[0].commits[0]
+    const contentWithMigration: ChangelogContent = {
+      ...mockContent,
+      sections: [{
+        ...mockContent.sections[0],
+        commits: [
+          { ...commit, migration: 'call login() with options' },
+          { ...commit, subject: 'drop legacy login', breaking: true, migration: 'use login()' },
+        ],
+      }],
+    }
+
+    const formatter = new MarkdownFormatter()
+    const result = formatter.format(contentWithMigration)
+
+    expect(result).toContain('add user login')
+    expect(result).toContain('\n  - **Migration**: call login() with options')
+    expect(result).not.toContain('use login()')
+  })
 })
 
@@ -0,0 +1,106 @@
+/**
+ * PluginManager 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { Command } from 'commander'
+import { PluginManager, createPlugin } from '../src/core/PluginManager'
+
+describe('PluginManager', () => {
+  it('应该在执行第一个钩子前按注册顺序等待 init 完成', async () => {
+    const calls: string[] = []
+    const manager = new PluginManager()
+
+    manager.register(createPlugin('slow', {
+      afterParse: (commits) => { calls.push('slow:afterParse'); return commits },
+    }, {
+      init: async () => {
+        await new Promise(resolve => setTimeout(resolve, 10))
+        calls.push('slow:init')
+      },
+    }))
+    manager.register(createPlugin('fast', {
+      afterParse: (commits) => { calls.push('fast:afterParse'); return commits },
+    }, {
+      init: () => { calls.push('fast:init') },
+    }))
+
+    await manager.executeHook('afterParse', [])
+    await manager.executeHook('afterParse', [])
+
+    expect(calls).toEqual([
+      'slow:init',
+      'fast:init',
+      'slow:afterParse',
+      'fast:afterParse',
+      'slow:afterParse',
+      'fast:afterParse',
+    ])
+  })
+
+  it('多个管理器注册同一插件对象时只初始化一次', async () => {
+    let inits = 0
+    const plugin = createPlugin('counter', {}, { init: () => { inits++ } })
+
+    for (const manager of [new PluginManager(), new PluginManager()]) {
+      manager.register(plugin)
+      await manager.executeHook('afterWrite', 'CHANGELOG.md')
+    }
+
+    expect(inits).toBe(1)
+  })
+
+  it('并发执行钩子时应该等待其他管理器发起的 init 完成', async () => {
+    const calls: string[] = []
+    const plugin = createPlugin('slow', {
+      afterWrite: () => { calls.push('afterWrite') },
+    } as any, {
+      init: async () => {
+        await new Promise(resolve => setTimeout(resolve, 10))
+        calls.push('init')
+      },
+    })
+    const managers = [new PluginManager(), new PluginManager()]
+    managers.forEach(manager => manager.register(plugin))
+
+    await Promise.all(managers.map(manager => manager.executeHook('afterWrite', 'CHANGELOG.md')))
+
+    expect(calls).toEqual(['init', 'afterWrite', 'afterWrite'])
+  })
+
+  it('应该在钩子返回 undefined 时沿用上一个值', async () => {
+    const seen: number[] = []
+    const manager = new PluginManager()
+
+    manager.register(createPlugin('observer', {
+      beforeParse: (commits) => { seen.push(commits.length) },
+    } as any))
+    manager.register(createPlugin('reverse', {
+      beforeParse: commits => [...commits].reverse(),
+    }))
+
+    const commits = [{ hash: 'a' }, { hash: 'b' }] as any[]
+    expect(await manager.executeHook('beforeParse', commits)).toEqual([{ hash: 'b' }, { hash: 'a' }])
+    expect(seen).toEqual([2])
+  })
+
+  it('应该注册插件提供的 CLI 子命令和格式化器', async () => {
+    const manager = new PluginManager()
+    manager.register(createPlugin('jira', {}, {
+      commands: (program) => {
+        program.command('jira-sync').description('同步 Jira')
+      },
+      formatters: {
+        confluence: { format: content => content.version },
+      },
+    }))
+
+    const program = new Command()
+    await manager.registerCommands(program)
+
+    expect(program.commands.map(c => c.name())).toEqual(['jira-sync'])
+    expect(manager.getFormatterNames()).toEqual(['confluence'])
+    expect(manager.getFormatter('confluence')).toBeDefined()
+    expect(manager.getFormatter('markdown')).toBeUndefined()
+  })
+})
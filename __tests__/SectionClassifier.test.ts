@@ -0,0 +1,90 @@
+/**
+ * SectionClassifier 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { SectionClassifier, matchesSectionRule } from '../src/core/SectionClassifier'
+import { globToRegExp } from '../src/utils/file'
+import type { ChangelogCommit } from '../src/types/changelog'
+
+/**
+ * 创建测试提交
+ */
+function createCommit(overrides: Partial<ChangelogCommit>): ChangelogCommit {
+  return {
+    hash: 'abc1234',
+    shortHash: 'abc1234',
+    type: 'feat',
+    subject: 'subject',
+    author: { name: 'Test User', email: 'test@example.com' },
+    date: '2024-01-01',
+    ...overrides,
+  }
+}
+
+describe('SectionClassifier', () => {
+  it('应该按 glob 匹配路径', () => {
+    expect(globToRegExp('src/api/**').test('src/api/v1/users.ts')).toBe(true)
+    expect(globToRegExp('src/*.ts').test('src/api/users.ts')).toBe(false)
+    expect(globToRegExp('**/*.md').test('README.md')).toBe(true)
+    expect(globToRegExp('docs').test('docs/guide/intro.md')).toBe(true)
+    expect(globToRegExp('docs').test('docs-site/index.md')).toBe(false)
+  })
+
+  it('应该要求规则中的所有条件都满足', () => {
+    const rule = {
+      section: 'Dependencies',
+      type: 'chore',
+      scope: 'deps',
+      trailers: { 'Changelog-Section': true as const },
+    }
+
+    const commit = createCommit({
+      type: 'chore',
+      scope: 'deps',
+      trailers: [{ token: 'changelog-section', value: 'deps' }],
+    })
+
+    expect(matchesSectionRule(rule, commit)).toBe(true)
+    expect(matchesSectionRule(rule, { ...commit, trailers: undefined })).toBe(false)
+    expect(matchesSectionRule({ section: 'Bots', author: /\[bot\]/ }, commit)).toBe(false)
+    expect(matchesSectionRule({ section: 'Docs', body: 'docs' }, commit)).toBe(false)
+  })
+
+  it('应该使用第一条匹配的规则并回退到类型分组', () => {
+    const classifier = new SectionClassifier({
+      rules: [
+        { section: 'API changes', files: ['src/api/**'], priority: 0 },
+        { section: 'Dependencies', type: 'chore', scope: 'deps' },
+        { section: '✨ 新功能', subject: /^add / },
+      ],
+      types: [
+        { type: 'feat', section: '✨ 新功能', priority: 1 },
+        { type: 'fix', section: '🐛 Bug 修复', priority: 2 },
+      ],
+    })
+
+    const sections = classifier.classify([
+      createCommit({ type: 'fix', subject: 'fix endpoint', files: ['src/api/users.ts'] }),
+      createCommit({ type: 'chore', scope: 'deps', subject: 'bump chalk', files: ['src/api/x.ts'] }),
+      createCommit({ type: 'chore', scope: 'deps', subject: 'bump ora' }),
+      createCommit({ type: 'docs', subject: 'add guide' }),
+      createCommit({ type: 'fix', subject: 'fix typo' }),
+    ])
+
+    expect(sections.map(s => [s.title, s.type, s.commits.map(c => c.subject)])).toEqual([
+      ['API changes', 'API changes', ['fix endpoint', 'bump chalk']],
+      ['✨ 新功能', 'feat', ['add guide']],
+      ['🐛 Bug 修复', 'fix', ['fix typo']],
+      ['Dependencies', 'Dependencies', ['bump ora']],
+    ])
+  })
+
+  it('带 g 标志的正则应该对每个提交都生效', () => {
+    const rule = { section: 'API', subject: /api/g, scope: /^core$/g }
+    const commit = createCommit({ scope: 'core', subject: 'api change' })
+
+    expect(matchesSectionRule(rule, commit)).toBe(true)
+    expect(matchesSectionRule(rule, commit)).toBe(true)
+  })
+})
@@ -83,6 +83,23 @@ describe('StatsAnalyzer', () => {
     expect(stats.contributors[1].name).toBe('Bob')
   })
 
+  it('应该将共同作者计入贡献者', () => {
+    const analyzer = new StatsAnalyzer()
+    const stats = analyzer.analyze([
+      { ...mockCommits[0], coAuthors: [{ name: 'Carol', email: 'carol@example.com' }] },
+      { ...mockCommits[1], coAuthors: [{ name: 'Alice', email: 'ALICE@example.com' }] },
+    ])
+
+    const alice = stats.contributors.find(c => c.name === 'Alice')
+    const carol = stats.contributors.find(c => c.name === 'Carol')
+
+    expect(stats.contributors).toHaveLength(3)
+    expect(alice?.commitCount).toBe(1)
+    expect(alice?.coAuthoredCount).toBe(1)
+    expect(carol?.commitCount).toBe(0)
+    expect(carol?.lastCommitDate).toBe('2025-01-01')
+  })
+
   it('应该计算频率统计', () => {
     const analyzer = new StatsAnalyzer({ analyzeFrequency: true })
     const stats = analyzer.analyze(mockCommits)
@@ -104,5 +121,21 @@ describe('StatsAnalyzer', () => {
     expect(stats.references.prCount).toBe(2)
     expect(stats.references.issueCount).toBe(3)
   })
+
+  it('squash 展开条目只计为一次提交', () => {
+    const squashed: ChangelogCommit[] = [
+      { ...mockCommits[0], squashOf: 'abc123', squashIndex: 0 },
+      { ...mockCommits[0], type: 'fix', squashOf: 'abc123', squashIndex: 1 },
+      mockCommits[1],
+    ]
+
+    const analyzer = new StatsAnalyzer()
+    const stats = analyzer.analyze(squashed)
+    const alice = stats.contributors.find(c => c.email === 'alice@example.com')
+
+    expect(stats.totalCommits).toBe(2)
+    expect(alice?.commitCount).toBe(1)
+    expect(alice?.commitsByType).toEqual({ feat: 1, fix: 1 })
+  })
 })
 
@@ -0,0 +1,147 @@
+/**
+ * TemplateEngine 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { join } from 'path'
+import {
+  TemplateEngine,
+  detectTemplateEngine,
+  getTemplatePresetNames,
+  loadTemplatePreset,
+} from '../src/core/TemplateEngine'
+import type { ChangelogContent } from '../src/types/changelog'
+
+const content: ChangelogContent = {
+  version: '1.2.0',
+  date: '2024-05-01',
+  sections: [{
+    title: '✨ Features',
+    type: 'feat',
+    commits: [{
+      hash: 'abc1234567',
+      shortHash: 'abc1234',
+      type: 'feat',
+      scope: 'api',
+      subject: 'add <search> endpoint',
+      author: { name: 'Jane', email: 'jane@example.com' },
+      date: '2024-04-30',
+    }],
+  }],
+  commits: [],
+}
+
+describe('TemplateEngine', () => {
+  it('应该按扩展名推断模板引擎', () => {
+    expect(detectTemplateEngine('changelog.hbs')).toBe('handlebars')
+    expect(detectTemplateEngine('changelog.handlebars')).toBe('handlebars')
+    expect(detectTemplateEngine('changelog.ejs')).toBe('ejs')
+  })
+
+  it('应该使用 Handlebars 渲染并注册自定义辅助函数', () => {
+    const engine = new TemplateEngine({
+      engine: 'handlebars',
+      escape: false,
+      helpers: { shout: (text: string) => text.toUpperCase() },
+      variables: { product: 'Acme' },
+    })
+
+    const output = engine.renderString(
+      '{{product}} {{version}}\n{{#each sections}}{{#each commits}}- {{shout subject}} ({{capitalize scope}}){{/each}}{{/each}}',
+      content
+    )
+
+    expect(output).toBe('Acme 1.2.0\n- ADD <SEARCH> ENDPOINT (Api)')
+  })
+
+  it('Handlebars 模板默认转义 HTML 且不能执行 JS', () => {
+    const engine = new TemplateEngine({ engine: 'handlebars' })
+
+    expect(engine.renderString('{{sections.0.commits.0.subject}}', content)).toBe('add &lt;search&gt; endpoint')
+    expect(engine.renderString('{{process.exit}}', content)).toBe('')
+    expect(() => engine.renderString('{{#each sections}}', content)).toThrow('模板渲染失败')
+  })
+
+  it('应该通过 helpers 对象向 EJS 模板提供辅助函数', () => {
+    const engine = new TemplateEngine({ helpers: { shout: (text: string) => text.toUpperCase() } })
+
+    expect(engine.renderString('<%- helpers.shout(version + " " + helpers.capitalize("ok")) %>', content)).toBe('1.2.0 OK')
+  })
+
+  it('内置 Markdown 模板的两种引擎输出应一致', async () => {
+    const ejsOutput = await new TemplateEngine().render(join(__dirname, '../templates/markdown.ejs'), content)
+    const hbsOutput = await new TemplateEngine({ engine: 'handlebars', escape: false })
+      .render(join(__dirname, '../templates/markdown.hbs'), content)
+
+    expect(ejsOutput).toContain('- **api**: add <search> endpoint - @Jane')
+    expect(hbsOutput).toBe(ejsOutput)
+  })
+
+  it('内置模板应该渲染 Issue 链接和回滚链接', async () => {
+    const commit = content.sections[0].commits[0]
+    const linked: ChangelogContent = {
+      ...content,
+      sections: [{
+        ...content.sections[0],
+        commits: [{
+          ...commit,
+          issues: ['12', '!56'],
+          issueLinks: ['https://github.com/o/r/issues/12', ''],
+          revert: { hash: 'def4567890', header: 'feat: old', link: 'https://github.com/o/r/commit/def4567890' },
+        }],
+      }],
+    }
+    const ejsOutput = await new TemplateEngine().render(join(__dirname, '../templates/markdown.ejs'), linked)
+    const hbsOutput = await new TemplateEngine({ engine: 'handlebars', escape: false })
+      .render(join(__dirname, '../templates/markdown.hbs'), linked)
+
+    expect(ejsOutput).toContain('endpoint (reverts [def4567](https://github.com/o/r/commit/def4567890)) ([#12](https://github.com/o/r/issues/12))')
+    expect(hbsOutput).toBe(ejsOutput)
+
+    for (const name of getTemplatePresetNames()) {
+      const preset = loadTemplatePreset(name)
+      const output = new TemplateEngine({ engine: 'handlebars', escape: false, partials: preset.partials, variables: preset.variables })
+        .renderString(preset.template, linked)
+
+      expect(output).toContain('(reverts [def4567](https://github.com/o/r/commit/def4567890))')
+      expect(output).toContain('](https://github.com/o/r/issues/12)')
+    }
+  })
+
+  describe('Template Presets', () => {
+    /**
+     * 使用预设渲染
+     */
+    function renderPreset(name: string, partials: Record<string, string> = {}): string {
+      const preset = loadTemplatePreset(name)
+      const engine = new TemplateEngine({
+        engine: 'handlebars',
+        escape: false,
+        partials: { ...preset.partials, ...partials },
+        variables: preset.variables,
+      })
+      return engine.renderString(preset.template, content)
+    }
+
+    it('所有预设都应能渲染', () => {
+      expect(getTemplatePresetNames()).toEqual(['keepachangelog', 'github-release', 'minimal', 'corporate'])
+
+      for (const name of getTemplatePresetNames()) {
+        expect(renderPreset(name)).toContain('add <search> endpoint')
+      }
+    })
+
+    it('keepachangelog 预设应使用 Keep a Changelog 章节名称', () => {
+      expect(renderPreset('keepachangelog')).toBe('## [1.2.0] - 2024-05-01\n\n### Added\n\n- **api:** add <search> endpoint\n\n')
+    })
+
+    it('应该支持只覆盖单个 partial', () => {
+      const output = renderPreset('minimal', { commit: '* {{shortHash}} {{subject}}\n' })
+      expect(output).toBe('## 1.2.0 (2024-05-01)\n\n* abc1234 add <search> endpoint\n')
+    })
+
+    it('未知预设应报错', () => {
+      expect(() => loadTemplatePreset('fancy')).toThrow('未知的模板预设: fancy')
+    })
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * VersionAnalyzer 测试
+ */
+
+import { describe, it, expect } from 'vitest'
+import { VersionAnalyzer } from '../src/core/VersionAnalyzer'
+import type { ChangelogCommit } from '../src/types/changelog'
+
+/**
+ * 创建测试提交
+ */
+function createCommit(overrides: Partial<ChangelogCommit>): ChangelogCommit {
+  return {
+    hash: 'abc1234',
+    shortHash: 'abc1234',
+    type: 'chore',
+    subject: 'update',
+    author: { name: 'Test User', email: 'test@example.com' },
+    date: '2024-01-01',
+    ...overrides,
+  }
+}
+
+describe('VersionAnalyzer', () => {
+  it('应该根据提交推荐版本类型', () => {
+    const analyzer = new VersionAnalyzer({ currentVersion: '1.2.3' })
+
+    expect(analyzer.analyze([
+      createCommit({ type: 'fix', subject: 'handle empty input' }),
+      createCommit({ type: 'feat', subject: 'add export' }),
+    ]).recommended).toMatchObject({ type: 'minor', version: '1.3.0' })
+
+    expect(analyzer.analyze([
+      createCommit({ type: 'feat', subject: 'drop node 16', breaking: true }),
+    ]).recommended).toMatchObject({ type: 'major', version: '2.0.0' })
+  })
+
+  it('应该按置信度阈值判断推荐是否可信', () => {
+    const commits = [createCommit({ subject: 'update deps' })]
+
+    const analyzer = new VersionAnalyzer({ currentVersion: '1.2.3' })
+    const { recommended } = analyzer.analyze(commits)
+    expect(recommended.type).toBe('patch')
+    expect(recommended.confidence).toBeLessThan(0.7)
+    expect(analyzer.isConfident(recommended)).toBe(false)
+
+    const lenient = new VersionAnalyzer({ currentVersion: '1.2.3', confidenceThreshold: 0 })
+    expect(lenient.getConfidenceThreshold()).toBe(0)
+    expect(lenient.isConfident(recommended)).toBe(true)
+  })
+
+  it('不应仅凭关键词达到置信度阈值', () => {
+    const analyzer = new VersionAnalyzer({ currentVersion: '1.2.3' })
+
+    const keywordOnly = analyzer.analyze([
+      createCommit({ type: 'docs', subject: 'explain breaking-change policy' }),
+      createCommit({ subject: 'x' }),
+      createCommit({ subject: 'y' }),
+    ])
+    const major = keywordOnly.suggestions.find(s => s.type === 'major')!
+    expect(analyzer.isConfident(major)).toBe(false)
+    expect(analyzer.isConfident(keywordOnly.recommended)).toBe(false)
+
+    const feature = analyzer.analyze([
+      createCommit({ type: 'feat', subject: 'add major-version column' }),
+      createCommit({ type: 'fix', subject: 'a' }),
+      createCommit({ type: 'fix', subject: 'b' }),
+    ])
+    expect(feature.recommended).toMatchObject({ type: 'minor', version: '1.3.0' })
+    expect(analyzer.isConfident(feature.recommended)).toBe(true)
+  })
+
+  it('应该对 0.x 版本按降一级后的类型推荐', () => {
+    const analyzer = new VersionAnalyzer({ currentVersion: '0.4.2' })
+
+    const breaking = analyzer.analyze([createCommit({ type: 'feat', breaking: true })])
+    expect(breaking.recommended).toMatchObject({ type: 'minor', version: '0.5.0' })
+    expect(breaking.suggestions.map(s => s.type)).toEqual(['minor', 'patch'])
+
+    const feature = analyzer.analyze([createCommit({ type: 'feat', subject: 'add export' })])
+    expect(feature.recommended).toMatchObject({ type: 'patch', version: '0.4.3' })
+  })
+
+  it('应该使用配置的递增规则', () => {
+    const analyzer = new VersionAnalyzer({
+      currentVersion: '1.2.3',
+      bumpRules: { trailers: { 'Release-Minor': 'minor' } },
+    })
+
+    const result = analyzer.analyze([
+      createCommit({ subject: 'update deps', trailers: [{ token: 'Release-Minor', value: 'yes' }] }),
+    ])
+    expect(result.recommended).toMatchObject({ type: 'minor', version: '1.3.0' })
+  })
+})
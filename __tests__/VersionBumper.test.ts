@@ -0,0 +1,97 @@
+/**
+ * VersionBumper 测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { VersionBumper, createPatternUpdater, formatFileDiff } from '../src/core/VersionBumper'
+
+describe('VersionBumper', () => {
+  let cwd: string
+  const read = (file: string) => readFileSync(join(cwd, file), 'utf-8')
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'changelog-bump-'))
+    mkdirSync(join(cwd, 'chart'))
+    writeFileSync(join(cwd, 'package.json'), '{\n    "name": "demo",\n    "version": "1.2.3"\n}\n')
+    writeFileSync(join(cwd, 'Cargo.toml'), '[dependencies]\nversion = "9.9.9"\n\n[package]\nname = "demo"\nversion = "1.2.3"\n')
+    writeFileSync(join(cwd, 'pyproject.toml'), '[tool.poetry]\nname = "demo"\nversion = "1.2.3"\n')
+    writeFileSync(join(cwd, 'chart/Chart.yaml'), 'apiVersion: v2\nname: demo\nversion: 1.2.3\nappVersion: "1.2.3"\n')
+    writeFileSync(join(cwd, 'README.md'), '![version](https://img.shields.io/badge/version-1.2.3-blue)\n')
+    writeFileSync(join(cwd, 'version.ts'), "export const VERSION = '1.2.3'\n")
+  })
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  it('应该使用内置类型、正则和自定义更新器更新版本号', async () => {
+    const bumper = new VersionBumper({
+      cwd,
+      files: [
+        'package.json',
+        'Cargo.toml',
+        'pyproject.toml',
+        'chart/Chart.yaml',
+        { file: 'README.md', pattern: 'badge/version-([\\w.-]+)-blue' },
+        {
+          file: 'version.ts',
+          updater: {
+            readVersion: contents => contents.match(/'(.+)'/)?.[1],
+            writeVersion: (contents, version) => contents.replace(/'.+'/, `'${version}'`),
+          },
+        },
+      ],
+    })
+
+    expect(await bumper.readVersion()).toBe('1.2.3')
+
+    const changes = await bumper.bump('1.3.0')
+    expect(changes.map(change => change.file)).toHaveLength(6)
+
+    expect(read('package.json')).toBe('{\n    "name": "demo",\n    "version": "1.3.0"\n}\n')
+    expect(read('Cargo.toml')).toContain('[dependencies]\nversion = "9.9.9"')
+    expect(read('Cargo.toml')).toContain('name = "demo"\nversion = "1.3.0"')
+    expect(read('pyproject.toml')).toContain('version = "1.3.0"')
+    expect(read('chart/Chart.yaml')).toBe('apiVersion: v2\nname: demo\nversion: 1.3.0\nappVersion: "1.2.3"\n')
+    expect(read('README.md')).toContain('badge/version-1.3.0-blue')
+    expect(read('version.ts')).toBe("export const VERSION = '1.3.0'\n")
+  })
+
+  it('应该在任一文件失败时不写入任何文件', async () => {
+    const bumper = new VersionBumper({
+      cwd,
+      files: ['package.json', { file: 'README.md', pattern: 'release-(\\d+)' }],
+    })
+
+    await expect(bumper.bump('1.3.0')).rejects.toThrow('更新版本文件 README.md 失败: 未匹配到版本号')
+    expect(read('package.json')).toContain('"version": "1.2.3"')
+
+    await expect(new VersionBumper({ cwd, files: ['version.ts'] }).plan('1.3.0'))
+      .rejects.toThrow('无法识别版本文件类型: version.ts')
+    await expect(new VersionBumper({ cwd, files: [{ file: 'README.md', pattern: 'version-[\\d.]+' }] }).plan('1.3.0'))
+      .rejects.toThrow('正则缺少捕获组')
+    expect(readdirSync(cwd).filter(file => file.endsWith('.tmp'))).toEqual([])
+  })
+
+  it('正则更新器应该只替换捕获组所在位置', () => {
+    const updater = createPatternUpdater('v1\\.(\\d+)')
+
+    expect(updater.writeVersion('v1.1 and v1.1', '7')).toBe('v1.7 and v1.7')
+    expect(updater.readVersion?.('v1.1')).toBe('1')
+  })
+
+  it('应该生成逐行差异', async () => {
+    const [change] = await new VersionBumper({ cwd, files: ['chart/Chart.yaml'] }).plan('2.0.0')
+
+    expect(formatFileDiff(change)).toBe([
+      '--- a/chart/Chart.yaml',
+      '+++ b/chart/Chart.yaml',
+      '@@ -3 +3 @@',
+      '-version: 1.2.3',
+      '+version: 2.0.0',
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * Git 工具函数测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execa } from 'execa'
+import { mkdtempSync, mkdirSync, renameSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import {
+  createGitCommit,
+  createGitTag,
+  getGitCommits,
+  getLatestTag,
+  getVersionTags,
+  parseTagVersion,
+  toPathspec,
+} from '../src/utils/git-utils'
+
+/**
+ * 在临时仓库中执行 git 命令
+ */
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execa('git', args, { cwd })
+  return stdout.trim()
+}
+
+/**
+ * 创建提交
+ */
+async function commit(cwd: string, message: string, file = 'file.txt'): Promise<void> {
+  mkdirSync(dirname(join(cwd, file)), { recursive: true })
+  writeFileSync(join(cwd, file), `${message}\n${Math.random()}`)
+  await git(cwd, 'add', '.')
+  await git(cwd, 'commit', '-m', message)
+}
+
+describe('git-utils', () => {
+  describe('parseTagVersion', () => {
+    it('应该解析带前缀的版本标签', () => {
+      expect(parseTagVersion('v1.2.3')).toBe('1.2.3')
+      expect(parseTagVersion('1.2.3')).toBe('1.2.3')
+      expect(parseTagVersion('@scope/pkg@2.0.0-beta.1', '@scope/pkg@')).toBe('2.0.0-beta.1')
+      expect(parseTagVersion('v1.2.3', '@scope/pkg@')).toBeNull()
+      expect(parseTagVersion('nightly')).toBeNull()
+    })
+  })
+
+  describe('Tag Resolution', () => {
+    let repo: string
+
+    beforeEach(async () => {
+      repo = mkdtempSync(join(tmpdir(), 'changelog-tags-'))
+      await git(repo, 'init')
+      await git(repo, 'config', 'user.name', 'Test User')
+      await git(repo, 'config', 'user.email', 'test@example.com')
+      await commit(repo, 'chore: initial commit')
+      await git(repo, 'tag', 'v1.0.0')
+      await git(repo, 'branch', 'maintenance')
+
+      await commit(repo, 'feat: next major')
+      await git(repo, 'tag', 'v2.0.0')
+
+      await git(repo, 'checkout', 'maintenance')
+      await commit(repo, 'fix: backport')
+      await git(repo, 'tag', 'v1.0.1')
+      await commit(repo, 'fix: another backport')
+      await git(repo, 'tag', 'v1.0.2-rc.1')
+      await git(repo, 'tag', 'deploy-2024')
+    })
+
+    afterEach(() => {
+      rmSync(repo, { recursive: true, force: true })
+    })
+
+    it('只考虑从目标引用可达的版本标签', async () => {
+      expect(await getLatestTag(repo)).toBe('v1.0.2-rc.1')
+      expect(await getVersionTags(repo)).toEqual(['v1.0.2-rc.1', 'v1.0.1', 'v1.0.0'])
+    })
+
+    it('应该支持跳过预发布标签', async () => {
+      expect(await getLatestTag(repo, { skipPrerelease: true })).toBe('v1.0.1')
+    })
+
+    it('应该支持其它分支作为目标引用并排除目标本身的标签', async () => {
+      const master = (await git(repo, 'branch', '--format=%(refname:short)')).split('\n').find(b => b !== 'maintenance')!
+
+      expect(await getLatestTag(repo, { to: master })).toBe('v2.0.0')
+      expect(await getLatestTag(repo, { to: 'v2.0.0', excludeTarget: true })).toBe('v1.0.0')
+    })
+
+    it('应该按标签正则过滤', async () => {
+      expect(await getVersionTags(repo, { pattern: /^v1\.0\.[01]$/ })).toEqual(['v1.0.1', 'v1.0.0'])
+      expect(await getVersionTags(repo, { pattern: /^v1\.0\.[01]$/g })).toEqual(['v1.0.1', 'v1.0.0'])
+    })
+  })
+
+  describe('Path Filtering', () => {
+    let repo: string
+
+    beforeEach(async () => {
+      repo = mkdtempSync(join(tmpdir(), 'changelog-paths-'))
+      await git(repo, 'init')
+      await git(repo, 'config', 'user.name', 'Test User')
+      await git(repo, 'config', 'user.email', 'test@example.com')
+      await commit(repo, 'chore: initial commit')
+      await commit(repo, 'feat(api): add endpoint', 'services/api/src/index.ts')
+      await commit(repo, 'feat(web): add page', 'services/web/index.ts')
+      await commit(repo, 'docs: add guide', 'docs/guide/intro.md')
+    })
+
+    afterEach(() => {
+      rmSync(repo, { recursive: true, force: true })
+    })
+
+    it('应该将路径 glob 转换为 pathspec', () => {
+      expect(toPathspec('services/**')).toBe(':(glob)services/**')
+      expect(toPathspec(':(exclude)docs')).toBe(':(exclude)docs')
+    })
+
+    it('应该只返回修改了指定路径的提交', async () => {
+      const api = await getGitCommits(undefined, 'HEAD', repo, { paths: ['services/api'] })
+      expect(api.map(c => c.subject)).toEqual(['feat(api): add endpoint'])
+
+      const matched = await getGitCommits(undefined, 'HEAD', repo, { paths: ['services/*/index.ts', '**/*.md'] })
+      expect(matched.map(c => c.subject)).toEqual(['docs: add guide', 'feat(web): add page'])
+    })
+
+    it('HEAD 前进后不应命中旧缓存', async () => {
+      expect(await getGitCommits(undefined, 'HEAD', repo)).toHaveLength(4)
+
+      await commit(repo, 'fix: later fix')
+      expect(await getGitCommits(undefined, 'HEAD', repo)).toHaveLength(5)
+    })
+
+    it('不同路径过滤应使用不同的缓存', async () => {
+      const filtered = await getGitCommits(undefined, 'HEAD', repo, { paths: ['docs'] })
+      const all = await getGitCommits(undefined, 'HEAD', repo)
+
+      expect(filtered).toHaveLength(1)
+      expect(all).toHaveLength(4)
+    })
+  })
+
+  describe('Release Commit', () => {
+    let repo: string
+
+    beforeEach(async () => {
+      repo = mkdtempSync(join(tmpdir(), 'changelog-release-'))
+      await git(repo, 'init')
+      await git(repo, 'config', 'user.name', 'Test User')
+      await git(repo, 'config', 'user.email', 'test@example.com')
+      mkdirSync(join(repo, '.changelog/unreleased'), { recursive: true })
+      writeFileSync(join(repo, '.changelog/unreleased/tracked.md'), 'tracked')
+      await commit(repo, 'chore: initial commit')
+    })
+
+    afterEach(() => {
+      rmSync(repo, { recursive: true, force: true })
+    })
+
+    it('应该只提交指定文件并让标签指向发布提交', async () => {
+      writeFileSync(join(repo, 'CHANGELOG.md'), '# Changelog\n')
+      writeFileSync(join(repo, 'unrelated.txt'), 'wip')
+      mkdirSync(join(repo, '.changelog/1.1.0'))
+      renameSync(join(repo, '.changelog/unreleased/tracked.md'), join(repo, '.changelog/1.1.0/tracked.md'))
+
+      const hash = await createGitCommit('chore(release): 1.1.0', [
+        'CHANGELOG.md',
+        '.changelog/unreleased/tracked.md',
+        '.changelog/unreleased/untracked.md',
+        '.changelog/1.1.0/tracked.md',
+      ], repo)
+      await createGitTag('v1.1.0', 'Release v1.1.0', repo)
+
+      expect(hash).toBe(await git(repo, 'rev-parse', 'v1.1.0^{commit}'))
+      expect(await git(repo, 'show', '--name-status', '--format=%s', 'HEAD')).toBe([
+        'chore(release): 1.1.0',
+        '',
+        'R100\t.changelog/unreleased/tracked.md\t.changelog/1.1.0/tracked.md',
+        'A\tCHANGELOG.md',
+      ].join('\n'))
+      expect(await git(repo, 'status', '--porcelain')).toBe('?? unrelated.txt')
+
+      expect(await createGitCommit('chore(release): 1.1.0', ['CHANGELOG.md'], repo)).toBeNull()
+    })
+
+    it('应该使用 SSH 密钥签名提交和标签', async () => {
+      const key = join(repo, '..', `${repo.split('/').pop()}-key`)
+      await execa('ssh-keygen', ['-t', 'ed25519', '-N', '', '-q', '-f', key])
+
+      try {
+        writeFileSync(join(repo, 'CHANGELOG.md'), '# Changelog\n')
+        const options = { sign: 'ssh' as const, signingKey: `${key}.pub` }
+        await createGitCommit('chore(release): 1.1.0', ['CHANGELOG.md'], repo, options)
+        await createGitTag('v1.1.0', 'Release v1.1.0', repo, options)
+
+        expect(await git(repo, 'cat-file', 'commit', 'HEAD')).toContain('-----BEGIN SSH SIGNATURE-----')
+        expect(await git(repo, 'cat-file', 'tag', 'v1.1.0')).toContain('-----BEGIN SSH SIGNATURE-----')
+      } finally {
+        rmSync(key, { force: true })
+        rmSync(`${key}.pub`, { force: true })
+      }
+    })
+  })
+})
@@ -10,6 +10,9 @@ import {
   incrementVersion,
   cleanVersion,
   isPrerelease,
+  getBaseVersion,
+  nextPrereleaseVersion,
+  incrementPrereleaseVersion,
 } from '../src/utils/version'
 
 describe('Version Utils', () => {
@@ -86,5 +89,22 @@ describe('Version Utils', () => {
       expect(isPrerelease('1.0.0')).toBe(false)
     })
   })
+
+  describe('incrementPrereleaseVersion', () => {
+    const existing = ['1.9.0', '2.0.0-beta.1', '2.0.0-beta.2', '1.9.1-beta.7']
+
+    it('应该按渠道递增预发布编号', () => {
+      expect(nextPrereleaseVersion('2.0.0', 'beta', existing)).toBe('2.0.0-beta.3')
+      expect(nextPrereleaseVersion('2.0.0', 'rc', existing)).toBe('2.0.0-rc.1')
+      expect(incrementPrereleaseVersion('2.0.0-beta.2', 'prerelease', 'rc', existing)).toBe('2.0.0-rc.1')
+      expect(incrementPrereleaseVersion('2.0.0-beta.2', 'prerelease', 'beta', existing)).toBe('2.0.0-beta.3')
+    })
+
+    it('应该先按类型递增基础版本', () => {
+      expect(incrementPrereleaseVersion('1.9.0', 'premajor', 'beta', existing)).toBe('2.0.0-beta.3')
+      expect(incrementPrereleaseVersion('1.9.0', 'minor', 'alpha', existing)).toBe('1.10.0-alpha.1')
+      expect(getBaseVersion('2.0.0-rc.1+build.5')).toBe('2.0.0')
+    })
+  })
 })
 
@@ -6,8 +6,12 @@ import { Command } from 'commander'
 import Table from 'cli-table3'
 import chalk from 'chalk'
 import { createDiffAnalyzer } from '../../core/DiffAnalyzer.js'
-import { getLatestTag } from '../../utils/git-utils.js'
+import { createChangelogGenerator } from '../../core/ChangelogGenerator.js'
+import { getLatestTag, parseTagVersion } from '../../utils/git-utils.js'
 import { logger } from '../../utils/logger.js'
+import { loadConfig } from '../config-loader.js'
+import type { ChangelogConfig } from '../../types/config.js'
+import type { VersionAnalysisResult } from '../../types/ai.js'
 
 /**
  * 创建 analyze 命令
@@ -23,14 +27,16 @@ export function createAnalyzeCommand(): Command {
     .option('--detailed', '显示详细信息', false)
     .option('--core-patterns <patterns>', '核心模块路径模式（逗号分隔）')
     .option('--threshold <number>', '大型重构阈值（文件数）', '20')
+    .option('--config <file>', '配置文件路径')
     .action(async (options) => {
       try {
         const spinner = logger.startSpinner('正在分析变更影响...')
+        const config = await loadConfig(options.config)
 
         // 如果没有指定 from，尝试获取最新 tag
         let from = options.from
         if (!from) {
-          from = await getLatestTag() || undefined
+          from = await getLatestTag(undefined, { ...config.tags, to: options.to }) || undefined
           if (!from) {
             logger.stopSpinner(false)
             logger.error('未找到起始版本，请使用 --from 指定')
@@ -54,15 +60,24 @@ export function createAnalyzeCommand(): Command {
         // 分析变更影响
         const impact = await analyzer.analyze(from, options.to)
 
+        // 按递增规则推荐版本
+        const version = await recommendVersion(config, from, options.to)
+
         logger.stopSpinner(true, '分析完成')
 
         // 输出结果
         if (options.format === 'json') {
-          console.log(JSON.stringify(impact, null, 2))
+          console.log(JSON.stringify({ ...impact, version }, null, 2))
         } else if (options.format === 'markdown') {
           console.log(analyzer.generateSummary(impact))
+          if (version) {
+            console.log(`\n## Version Recommendation\n\n${version.summary}`)
+          }
         } else {
           displayImpactTable(impact, options.detailed)
+          if (version) {
+            displayVersionRecommendation(version)
+          }
         }
       } catch (error: any) {
         logger.stopSpinner(false)
@@ -74,6 +89,45 @@ export function createAnalyzeCommand(): Command {
   return command
 }
 
+/**
+ * 推荐下一个版本（起始引用不是版本标签时返回 null）
+ */
+async function recommendVersion(
+  config: ChangelogConfig,
+  from: string,
+  to: string
+): Promise<VersionAnalysisResult | null> {
+  const currentVersion = parseTagVersion(from, config.tags?.prefix)
+  if (!currentVersion) {
+    return null
+  }
+
+  const { result } = await createChangelogGenerator(config).recommendVersion(currentVersion, from, to)
+  return result
+}
+
+/**
+ * 显示版本推荐
+ */
+function displayVersionRecommendation(version: VersionAnalysisResult): void {
+  const { recommended } = version
+
+  console.log(chalk.bold('🏷️  Version Recommendation'))
+  const versionTable = new Table({
+    head: [chalk.cyan('Metric'), chalk.cyan('Value')],
+    colWidths: [30, 30],
+  })
+
+  versionTable.push(
+    ['Current Version', version.currentVersion],
+    ['Recommended', chalk.green(`${recommended.version} (${recommended.type})`)],
+    ['Confidence', `${(recommended.confidence * 100).toFixed(1)}%`],
+  )
+
+  console.log(versionTable.toString())
+  console.log(chalk.gray(`  ${recommended.reason}`) + '\n')
+}
+
 /**
  * 显示影响分析表格
  */
@@ -3,7 +3,7 @@
  */
 
 import { Command } from 'commander'
-import { createChangelogGenerator } from '../../core/ChangelogGenerator.js'
+import { createChangelogGenerator, UNRELEASED_VERSION } from '../../core/ChangelogGenerator.js'
 import { createMultiLangTranslator } from '../../core/MultiLangTranslator.js'
 import { logger } from '../../utils/logger.js'
 import { loadConfig } from '../config-loader.js'
@@ -23,14 +23,18 @@ export function createGenerateCommand(): Command {
     .option('--version <version>', '指定版本号')
     .option('--from <tag>', '起始标签')
     .option('--to <tag>', '结束标签', 'HEAD')
+    .option('--path <globs...>', '仅包含修改了这些路径的提交 (glob)')
     .option('--output <file>', '输出文件')
-    .option('--format <format>', '输出格式 (markdown|json|html)')
-    .option('--template <file>', '自定义模板路径')
+    .option('--format <format>', '输出格式 (markdown|json|html 或插件注册的格式)')
+    .option('--template <file>', '自定义模板路径 (.ejs / .hbs)')
+    .option('--template-preset <name>', '模板预设 (keepachangelog|github-release|minimal|corporate)')
     .option('--config <file>', '配置文件路径')
     .option('--no-write', '不写入文件，仅输出到控制台')
     .option('--interactive', '交互式选择提交')
     .option('--edit', '编辑生成的 Changelog')
     .option('--track-deps', '追踪依赖变更')
+    .option('--all', '为所有版本标签生成完整历史')
+    .option('--unreleased', '完整历史中包含最新标签之后的 Unreleased 版本')
     .option('--languages <langs>', '生成多语言版本，用逗号分隔 (例如: zh-CN,en-US,ja-JP)')
     .option('--glossary <file>', '术语表文件路径 (JSON 格式)')
     .option('--translate-commits', '翻译提交消息 (需要 AI 配置)')
@@ -45,7 +49,15 @@ export function createGenerateCommand(): Command {
         // 合并命令行选项
         if (options.output) config.output = options.output
         if (options.format) config.format = options.format
-        if (options.template) config.template = options.template
+        if (options.template || options.templatePreset) {
+          // 保留配置中的 helpers / partials，命令行指定预设时不再使用配置的模板路径
+          const template = typeof config.template === 'object' ? config.template : {}
+          config.template = {
+            ...template,
+            path: options.template ?? (options.templatePreset ? undefined : template.path),
+            preset: options.templatePreset ?? template.preset,
+          }
+        }
 
         // 创建生成器
         const generator = createChangelogGenerator(config)
@@ -56,9 +68,29 @@ export function createGenerateCommand(): Command {
           logger.debug('已启用依赖追踪')
         }
 
+        // 生成完整历史
+        if (options.all) {
+          const contents = await generator.generateHistory({
+            paths: options.path,
+            includeUnreleased: options.unreleased,
+          })
+
+          logger.stopSpinner(true)
+
+          if (options.write === false) {
+            console.log('\n' + await generator.renderHistory(contents))
+          } else {
+            await generator.writeHistory(contents)
+            logger.success(`Changelog 已生成: ${config.output}（${contents.length} 个版本）`)
+          }
+          return
+        }
+
         // 生成 Changelog
-        const version = options.version || 'Unreleased'
-        let content = await generator.generate(version, options.from, options.to)
+        const version = options.version || UNRELEASED_VERSION
+        let content = await generator.generate(version, options.from, options.to, {
+          paths: options.path,
+        })
 
         logger.stopSpinner(true)
 
@@ -68,7 +100,7 @@ export function createGenerateCommand(): Command {
         }
 
         // 格式化内容
-        let formatted = generator.format(content)
+        let formatted = await generator.render(content)
 
         // 编辑模式
         if (options.edit) {
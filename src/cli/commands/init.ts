@@ -22,7 +22,10 @@ module.exports = {
   // 输出格式 (markdown | json | html)
   format: 'markdown',
 
-  // 提交类型配置
+  // 提交规范预设 (angular | gitmoji | eslint | atom | jquery)
+  preset: 'angular',
+
+  // 提交类型配置（配置后覆盖预设的类型映射）
   types: [
     { type: 'feat', section: '✨ 新功能', priority: 1 },
     { type: 'fix', section: '🐛 Bug 修复', priority: 2 },
@@ -51,6 +54,9 @@ module.exports = {
   // 是否包含所有提交（包括不符合 Conventional Commits 规范的）
   includeAllCommits: false,
 
+  // 是否将 squash 合并提交中的提交列表展开为独立条目
+  expandSquashCommits: false,
+
   // 日期格式
   dateFormat: 'YYYY-MM-DD',
 
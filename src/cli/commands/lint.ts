@@ -6,6 +6,7 @@ import { Command } from 'commander'
 import chalk from 'chalk'
 import Table from 'cli-table3'
 import { createCommitLinter } from '../../core/CommitLinter.js'
+import { resolvePreset, resolvePresetTypes } from '../../core/CommitPresets.js'
 import { logger } from '../../utils/logger.js'
 import { loadConfig } from '../config-loader.js'
 
@@ -31,9 +32,12 @@ export function createLintCommand(): Command {
         // 加载配置
         const config = await loadConfig(options.config)
 
-        // 创建 linter
+        // 创建 linter（未自定义 types 时使用预设的 lint 规则）
+        const preset = resolvePreset(config.preset)
+        const types = resolvePresetTypes(preset, config.types)
         const linter = createCommitLinter({
-          types: config.types?.map(t => t.type),
+          preset,
+          types: types === preset.types ? undefined : types.map(t => t.type),
           maxSubjectLength: Number.parseInt(options.maxSubjectLength, 10),
           requireScope: options.requireScope,
         })
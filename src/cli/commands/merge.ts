@@ -9,6 +9,7 @@ import { createChangelogMerger, type MergeSource, type MergeOptions } from '../.
 import { createMarkdownFormatter } from '../../formatters/MarkdownFormatter.js'
 import { createJsonFormatter } from '../../formatters/JsonFormatter.js'
 import { logger } from '../../utils/logger.js'
+import { loadConfig } from '../config-loader.js'
 import { writeFile } from 'fs/promises'
 import { resolve } from 'path'
 
@@ -29,6 +30,7 @@ export function createMergeCommand(): Command {
     .option('--preserve-package-prefix', '保留包名前缀')
     .option('--package-names <names>', '包名列表（逗号分隔，与文件顺序对应）')
     .option('--no-write', '不写入文件，仅输出到控制台')
+    .option('--config <file>', '配置文件路径（读取 sectionRules）')
     .action(async (files: string[], options) => {
       try {
         const spinner = logger.startSpinner(`正在合并 ${files.length} 个 changelog 文件...`)
@@ -59,6 +61,7 @@ export function createMergeCommand(): Command {
           deduplicateKey: options.deduplicateKey as MergeOptions['deduplicateKey'],
           preservePackagePrefix: options.preservePackagePrefix === true,
           outputFormat: options.format as 'markdown' | 'json',
+          sectionRules: (await loadConfig(options.config)).sectionRules,
         }
 
         // 创建合并器
@@ -0,0 +1,142 @@
+/**
+ * Override 命令 - 通过 git notes 管理提交覆盖
+ */
+
+import { Command } from 'commander'
+import chalk from 'chalk'
+import Table from 'cli-table3'
+import { createCommitOverrideManager } from '../../core/CommitOverrides.js'
+import type { CommitOverride } from '../../types/changelog.js'
+import { logger } from '../../utils/logger.js'
+import { loadConfig } from '../config-loader.js'
+
+/**
+ * 创建 override 命令
+ */
+export function createOverrideCommand(): Command {
+  const command = new Command('override')
+
+  command
+    .description('通过 git notes 修正已推送提交的 Changelog 条目（不改写历史）')
+
+  command
+    .command('add <commit>')
+    .description('添加或更新提交覆盖')
+    .option('--subject <subject>', '覆盖主题')
+    .option('--type <type>', '覆盖类型')
+    .option('--scope <scope>', '覆盖 scope（传入空字符串移除 scope）')
+    .option('--breaking', '标记为破坏性变更')
+    .option('--no-breaking', '取消破坏性变更标记')
+    .option('--migration <text>', '迁移说明')
+    .option('--hide', '在 Changelog 中隐藏该提交')
+    .option('--show', '取消隐藏')
+    .option('--config <file>', '配置文件路径')
+    .action(async (commit: string, options) => {
+      try {
+        const override: CommitOverride = {}
+        if (options.subject !== undefined) override.subject = options.subject
+        if (options.type !== undefined) override.type = options.type
+        if (options.scope !== undefined) override.scope = options.scope
+        if (options.breaking !== undefined) override.breaking = options.breaking
+        if (options.migration !== undefined) override.migration = options.migration
+        if (options.hide) override.hidden = true
+        if (options.show) override.hidden = false
+
+        if (Object.keys(override).length === 0) {
+          logger.error('请至少指定一个覆盖项（--subject、--type、--scope、--breaking、--migration、--hide）')
+          process.exit(1)
+        }
+
+        const manager = await createManager(options.config)
+        const entry = await manager.set(commit, override)
+
+        logger.success(`已更新提交 ${entry.hash.substring(0, 7)} 的覆盖`)
+        displayOverride(entry.override)
+        logger.info(`使用 git push origin ${manager.getNotesRef()} 共享覆盖`)
+      } catch (error: any) {
+        logger.error('添加覆盖失败', error)
+        process.exit(1)
+      }
+    })
+
+  command
+    .command('list')
+    .description('列出所有提交覆盖')
+    .option('--json', '以 JSON 格式输出', false)
+    .option('--config <file>', '配置文件路径')
+    .action(async (options) => {
+      try {
+        const manager = await createManager(options.config)
+        const entries = await manager.list()
+
+        if (options.json) {
+          console.log(JSON.stringify(entries, null, 2))
+          return
+        }
+
+        if (entries.length === 0) {
+          logger.info(`${manager.getNotesRef()} 中没有提交覆盖`)
+          return
+        }
+
+        const table = new Table({
+          head: [chalk.cyan('提交'), chalk.cyan('覆盖')],
+          style: { head: [], border: [] },
+        })
+
+        for (const entry of entries) {
+          table.push([
+            entry.hash.substring(0, 7),
+            Object.entries(entry.override).map(([key, value]) => `${key}: ${value}`).join('\n'),
+          ])
+        }
+
+        console.log(table.toString())
+      } catch (error: any) {
+        logger.error('列出覆盖失败', error)
+        process.exit(1)
+      }
+    })
+
+  command
+    .command('remove <commit>')
+    .description('移除提交覆盖')
+    .option('--config <file>', '配置文件路径')
+    .action(async (commit: string, options) => {
+      try {
+        const manager = await createManager(options.config)
+        const removed = await manager.remove(commit)
+
+        if (removed) {
+          logger.success(`已移除提交 ${commit} 的覆盖`)
+        } else {
+          logger.warn(`提交 ${commit} 没有覆盖`)
+        }
+      } catch (error: any) {
+        logger.error('移除覆盖失败', error)
+        process.exit(1)
+      }
+    })
+
+  return command
+}
+
+/**
+ * 按配置创建覆盖管理器
+ */
+async function createManager(configFile?: string) {
+  const config = await loadConfig(configFile)
+  return createCommitOverrideManager({
+    cwd: config.cwd,
+    notesRef: config.notesRef,
+  })
+}
+
+/**
+ * 显示覆盖内容
+ */
+function displayOverride(override: CommitOverride): void {
+  for (const [key, value] of Object.entries(override)) {
+    console.log(`  ${chalk.gray(`${key}:`)} ${value}`)
+  }
+}
@@ -20,7 +20,8 @@ export function createPreviewCommand(): Command {
     .option('--version <version>', '指定版本号', 'Unreleased')
     .option('--from <tag>', '起始标签')
     .option('--to <tag>', '结束标签', 'HEAD')
-    .option('--format <format>', '输出格式 (markdown|json|html)', 'markdown')
+    .option('--path <globs...>', '仅包含修改了这些路径的提交 (glob)')
+    .option('--format <format>', '输出格式 (markdown|json|html 或插件注册的格式)', 'markdown')
     .option('--config <file>', '配置文件路径')
     .option('--no-color', '禁用颜色输出', false)
     .option('--stats', '显示统计信息', false)
@@ -38,7 +39,9 @@ export function createPreviewCommand(): Command {
         const generator = createChangelogGenerator(config)
 
         // 生成 Changelog
-        const content = await generator.generate(options.version, options.from, options.to)
+        const content = await generator.generate(options.version, options.from, options.to, {
+          paths: options.path,
+        })
 
         logger.stopSpinner(true)
 
@@ -48,7 +51,7 @@ export function createPreviewCommand(): Command {
         }
 
         // 格式化并显示内容
-        const formatted = generator.format(content)
+        const formatted = await generator.render(content)
 
         console.log()
         console.log(boxen(chalk.bold.blue('📝 Changelog 预览'), {
@@ -114,6 +117,24 @@ function displayStats(stats: any): void {
     }
   }
 
+  // 排除统计
+  if (stats.excluded) {
+    const reasons: Record<string, string> = {
+      author: '作者规则',
+      message: '消息规则',
+      trailer: 'Changelog: skip',
+      paths: '路径规则',
+    }
+
+    console.log()
+    console.log(`  ${chalk.cyan('已排除:')} ${stats.excluded.total}`)
+    for (const [reason, count] of Object.entries(stats.excluded.byReason)) {
+      if (count) {
+        console.log(`    ${reasons[reason] ?? reason}: ${count}`)
+      }
+    }
+  }
+
   console.log()
 }
 
@@ -3,24 +3,33 @@
  */
 
 import { Command } from 'commander'
+import chalk from 'chalk'
 import { readFile } from 'fs/promises'
-import { join } from 'path'
+import { join, resolve } from 'path'
 import { createChangelogGenerator } from '../../core/ChangelogGenerator.js'
+import { createVersionBumper, formatFileDiff } from '../../core/VersionBumper.js'
 import {
   incrementVersion,
+  incrementPrereleaseVersion,
   isValidVersion,
+  isPrerelease,
+  getPrereleaseIdentifier,
   cleanVersion,
   type VersionType,
 } from '../../utils/version.js'
 import {
+  createGitCommit,
   createGitTag,
+  getGitTags,
   pushGitTag,
   isWorkingTreeClean,
   getLatestTag,
   getRepositoryInfo,
+  parseTagVersion,
 } from '../../utils/git-utils.js'
 import { logger } from '../../utils/logger.js'
 import { loadConfig } from '../config-loader.js'
+import { DEFAULT_RELEASE_COMMIT_MESSAGE, DEFAULT_RELEASE_TAG_MESSAGE } from '../../types/config.js'
 import { createGitHubReleaseManager } from '../../integrations/ReleaseManagerFactory.js'
 import { GitHubReleaseManager } from '../../integrations/GitHubReleaseManager.js'
 
@@ -32,15 +41,21 @@ export function createReleaseCommand(): Command {
 
   command
     .description('发布新版本（更新版本号、生成 Changelog、创建 Git tag）')
-    .option('--type <type>', '版本类型 (major|minor|patch|premajor|preminor|prepatch|prerelease)', 'patch')
+    .option('--type <type>', '版本类型 (auto|major|minor|patch|premajor|preminor|prepatch|prerelease)，默认读取配置 release.type 或 patch')
     .option('--version <version>', '指定版本号（覆盖自动递增）')
-    .option('--preid <identifier>', '预发布标识符 (alpha|beta|rc)')
+    .option('--preid <identifier>', '预发布渠道 (alpha|beta|rc)，编号按该渠道已有版本自动递增')
     .option('--tag', '创建 Git tag', false)
     .option('--push', '推送 tag 到远程', false)
     .option('--remote <remote>', '远程仓库名', 'origin')
     .option('--config <file>', '配置文件路径')
     .option('--skip-changelog', '跳过 Changelog 生成')
     .option('--force', '强制执行（跳过工作区检查）')
+    .option('--dry-run', '预演：显示版本文件差异和 Changelog，不写入任何文件')
+    .option('--commit', '提交 Changelog 和版本文件的变更（默认读取配置 release.commit，未配置时提交）')
+    .option('--no-commit', '不创建发布提交')
+    .option('--sign [format]', '签名发布提交和标签 (gpg|ssh)，未指定格式时使用 git 配置')
+    .option('--signing-key <key>', '签名密钥（GPG key ID 或 SSH 公钥路径）')
+    .option('-y, --yes', '自动推荐的置信度低于阈值时仍然发布')
     .option('--github-release', '创建 GitHub Release')
     .option('--prerelease', '标记为预发布版本')
     .option('--draft', '创建为草稿')
@@ -50,7 +65,7 @@ export function createReleaseCommand(): Command {
         const spinner = logger.startSpinner('准备发布...')
 
         // 检查工作区是否干净
-        if (!options.force) {
+        if (!options.force && !options.dryRun) {
           const isClean = await isWorkingTreeClean()
           if (!isClean) {
             logger.stopSpinner(false)
@@ -59,19 +74,34 @@ export function createReleaseCommand(): Command {
           }
         }
 
+        // 加载配置
+        const config = await loadConfig(options.config)
+
         // 获取当前版本
         const cwd = process.cwd()
         const packageJsonPath = join(cwd, 'package.json')
+        const bumpFiles = [...(config.bumpFiles || [])]
         let currentVersion: string
 
         try {
           const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8'))
           currentVersion = packageJson.version
+
+          // 版本号读取自 package.json 时，即使未列入 bumpFiles 也需要更新
+          const listed = bumpFiles.some(file =>
+            resolve(cwd, typeof file === 'string' ? file : file.file) === packageJsonPath
+          )
+          if (currentVersion && !listed) {
+            bumpFiles.unshift('package.json')
+          }
         } catch {
-          // 如果没有 package.json，尝试从 git tag 获取
-          const latestTag = await getLatestTag()
-          if (latestTag) {
-            currentVersion = cleanVersion(latestTag)
+          // 如果没有 package.json，尝试从版本文件或 git tag 获取
+          const fileVersion = await createVersionBumper({ cwd, files: bumpFiles }).readVersion()
+          const latestTag = fileVersion ? null : await getLatestTag(undefined, config.tags)
+          if (fileVersion) {
+            currentVersion = cleanVersion(fileVersion)
+          } else if (latestTag) {
+            currentVersion = parseTagVersion(latestTag, config.tags?.prefix) || cleanVersion(latestTag)
           } else {
             logger.stopSpinner(false)
             logger.error('无法确定当前版本号')
@@ -79,6 +109,7 @@ export function createReleaseCommand(): Command {
           }
         }
 
+        const bumper = createVersionBumper({ cwd, files: bumpFiles })
         logger.updateSpinner(`当前版本: ${currentVersion}`)
 
         // 计算新版本号
@@ -92,35 +123,131 @@ export function createReleaseCommand(): Command {
             process.exit(1)
           }
         } else {
-          const versionType = options.type as VersionType
-          newVersion = incrementVersion(currentVersion, versionType, options.preid)
+          const versionType = (options.type || config.release?.type || 'patch') as VersionType | 'auto'
+          let bumpType: VersionType
+
+          if (versionType === 'auto') {
+            logger.updateSpinner('正在分析提交...')
+
+            const lastTag = await getLatestTag(undefined, config.tags)
+            const { commits, result, confident, threshold } = await createChangelogGenerator(config)
+              .recommendVersion(currentVersion, lastTag || undefined, 'HEAD')
+
+            logger.stopSpinner(true, `分析了 ${commits.length} 个提交（自 ${lastTag || '首个提交'}）`)
+            logger.info(result.summary)
+
+            if (!confident && !options.yes) {
+              logger.error(`推荐置信度低于阈值 ${(threshold * 100).toFixed(1)}%，请使用 --type 指定版本类型或使用 --yes 确认`)
+              process.exit(1)
+            }
+
+            logger.startSpinner('准备发布...')
+            bumpType = result.recommended.type
+          } else {
+            bumpType = versionType
+          }
+
+          // 预发布渠道：--preid 指定，prerelease 类型默认沿用当前预发布版本的渠道
+          const channel = options.preid || (bumpType === 'prerelease' ? getPrereleaseIdentifier(currentVersion) : null)
+          if (channel) {
+            const existing = (await getGitTags())
+              .map(tag => parseTagVersion(tag, config.tags?.prefix))
+              .filter((version): version is string => !!version)
+            newVersion = incrementPrereleaseVersion(currentVersion, bumpType, channel, existing)
+          } else {
+            newVersion = incrementVersion(currentVersion, bumpType)
+          }
         }
 
         logger.updateSpinner(`新版本: ${newVersion}`)
 
+        // 发布提交和标签
+        const releaseConfig = config.release || {}
+        const tagName = `${config.tags?.prefix ?? 'v'}${newVersion}`
+        const shouldCommit: boolean = options.commit ?? releaseConfig.commit ?? true
+        const commitMessage = formatReleaseMessage(
+          releaseConfig.commitMessage || DEFAULT_RELEASE_COMMIT_MESSAGE,
+          newVersion,
+          tagName
+        )
+        const tagMessage = formatReleaseMessage(releaseConfig.tagMessage || DEFAULT_RELEASE_TAG_MESSAGE, newVersion, tagName)
+        const sign = options.sign ?? releaseConfig.sign
+        const signOptions = { sign, signingKey: options.signingKey ?? releaseConfig.signingKey }
+
+        if (typeof sign === 'string' && sign !== 'gpg' && sign !== 'ssh') {
+          logger.stopSpinner(false)
+          logger.error(`不支持的签名方式: ${sign}（可选 gpg、ssh）`)
+          process.exit(1)
+        }
+
+        // 计算所有版本文件的新内容，全部成功后才写入
+        const changes = await bumper.plan(newVersion)
+
+        if (options.dryRun) {
+          logger.stopSpinner(true, `预演：将发布版本 ${newVersion}`)
+
+          if (shouldCommit) {
+            logger.info(`发布提交: ${commitMessage}`)
+          }
+          if (options.tag) {
+            logger.info(`标签: ${tagName}（${tagMessage}）`)
+          }
+
+          for (const change of changes) {
+            console.log('\n' + colorizeDiff(formatFileDiff(change)))
+          }
+
+          if (!options.skipChangelog) {
+            const generator = createChangelogGenerator(config)
+            console.log('\n' + await generator.render(await generator.generate(newVersion)))
+          }
+          return
+        }
+
+        if (changes.length > 0) {
+          await bumper.apply(changes)
+          logger.updateSpinner(`已更新 ${changes.length} 个版本文件`)
+        }
+
         // 生成 Changelog
-        const config = await loadConfig(options.config)
         let changelogContent
-        
+        const releaseFiles = changes.map(change => change.path)
+
         if (!options.skipChangelog) {
           logger.updateSpinner('正在生成 Changelog...')
 
+          // 正式版本从上一个正式版本开始汇总预发布版本的变更
           const generator = createChangelogGenerator(config)
-
-          const lastTag = await getLatestTag()
-          changelogContent = await generator.generate(newVersion, lastTag || undefined, 'HEAD')
+          changelogContent = await generator.generate(newVersion)
           await generator.write(changelogContent)
+          releaseFiles.push(join(cwd, config.output || 'CHANGELOG.md'))
+
+          // 归档已发布的片段（原路径和归档路径都需要提交）
+          const archived = await generator.archiveFragments(changelogContent)
+          if (archived.length > 0) {
+            logger.updateSpinner(`已归档 ${archived.length} 个片段`)
+            for (const commit of changelogContent.commits) {
+              if (commit.fragment) releaseFiles.push(commit.fragment)
+            }
+            releaseFiles.push(...archived)
+          }
 
           logger.updateSpinner('Changelog 已生成')
         }
 
-        // 创建 Git tag
+        // 创建发布提交
+        let releaseCommit: string | null = null
+        if (shouldCommit) {
+          logger.updateSpinner('正在创建发布提交...')
+          releaseCommit = await createGitCommit(commitMessage, releaseFiles, cwd, signOptions)
+          logger.updateSpinner(releaseCommit ? `发布提交已创建: ${releaseCommit.slice(0, 7)}` : '没有需要提交的变更')
+        }
+
+        // 创建 Git tag（指向发布提交）
         if (options.tag) {
           logger.updateSpinner('正在创建 Git tag...')
 
-          const tagName = `v${newVersion}`
-          const tagMessage = `Release ${tagName}`
-          await createGitTag(tagName, tagMessage)
+          await createGitTag(tagName, tagMessage, cwd, signOptions)
 
           logger.updateSpinner(`Git tag 已创建: ${tagName}`)
 
@@ -147,7 +274,7 @@ export function createReleaseCommand(): Command {
               const releaseManager = createGitHubReleaseManager({
                 owner: repoConfig.owner,
                 repo: repoConfig.repo,
-                prerelease: options.prerelease,
+                prerelease: options.prerelease || isPrerelease(newVersion),
                 draft: options.draft,
                 assets: options.assets,
               })
@@ -168,9 +295,11 @@ export function createReleaseCommand(): Command {
           logger.info('1. 检查生成的 Changelog')
         }
         if (!options.githubRelease) {
-          logger.info('2. 提交更改: git add . && git commit -m "chore: release v' + newVersion + '"')
+          if (!releaseCommit) {
+            logger.info('2. 提交更改: git add . && git commit -m "' + commitMessage + '"')
+          }
           if (!options.tag) {
-            logger.info('3. 创建 tag: git tag v' + newVersion)
+            logger.info('3. 创建 tag: git tag ' + tagName)
           }
           if (!options.push) {
             logger.info('4. 推送到远程: git push && git push --tags')
@@ -186,3 +315,26 @@ export function createReleaseCommand(): Command {
   return command
 }
 
+/**
+ * 格式化发布消息模板
+ */
+function formatReleaseMessage(template: string, version: string, tag: string): string {
+  return template.replace(/\{version\}/g, version).replace(/\{tag\}/g, tag)
+}
+
+/**
+ * 为差异着色
+ */
+function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line)
+      if (line.startsWith('@@')) return chalk.cyan(line)
+      if (line.startsWith('+')) return chalk.green(line)
+      if (line.startsWith('-')) return chalk.red(line)
+      return line
+    })
+    .join('\n')
+}
+
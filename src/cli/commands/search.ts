@@ -10,6 +10,7 @@ import type { SearchQuery } from '../../core/SearchEngine.js'
 import { createChangelogGenerator } from '../../core/ChangelogGenerator.js'
 import { getLatestTag } from '../../utils/git-utils.js'
 import { logger } from '../../utils/logger.js'
+import { loadConfig } from '../config-loader.js'
 
 /**
  * 创建 search 命令
@@ -22,6 +23,7 @@ export function createSearchCommand(): Command {
     .argument('[keyword]', '搜索关键词')
     .option('--from <tag>', '起始标签')
     .option('--to <tag>', '结束标签', 'HEAD')
+    .option('--path <globs...>', '仅包含修改了这些路径的提交 (glob)')
     .option('--type <types...>', '按类型过滤 (feat, fix, docs, etc.)')
     .option('--scope <scopes...>', '按作用域过滤')
     .option('--author <authors...>', '按作者过滤')
@@ -33,19 +35,21 @@ export function createSearchCommand(): Command {
     .option('--page-size <number>', '每页大小', '20')
     .option('--format <format>', '输出格式 (table, json, list)', 'table')
     .option('--highlight', '高亮匹配的关键词')
+    .option('--config <file>', '配置文件路径')
     .action(async (keyword, options) => {
       try {
         const spinner = logger.startSpinner('正在搜索 Changelog...')
+        const config = await loadConfig(options.config)
 
         // 如果没有指定 from，尝试获取最新 tag
         let from = options.from
         if (!from) {
-          from = await getLatestTag() || undefined
+          from = await getLatestTag(undefined, { ...config.tags, to: options.to }) || undefined
         }
 
         // 生成 changelog 内容
-        const generator = createChangelogGenerator()
-        const content = await generator.generate('search', from, options.to)
+        const generator = createChangelogGenerator(config)
+        const content = await generator.generate('search', from, options.to, { paths: options.path })
 
         // 创建搜索引擎并建立索引
         const engine = new SearchEngine({
@@ -9,6 +9,7 @@ import { createCommitParser } from '../../core/CommitParser.js'
 import { createStatsAnalyzer } from '../../core/StatsAnalyzer.js'
 import { getGitCommits, getLatestTag, getRepositoryInfo } from '../../utils/git-utils.js'
 import { logger } from '../../utils/logger.js'
+import { loadConfig } from '../config-loader.js'
 
 /**
  * 创建 stats 命令
@@ -20,19 +21,24 @@ export function createStatsCommand(): Command {
     .description('显示 Changelog 统计信息')
     .option('--from <tag>', '起始标签')
     .option('--to <tag>', '结束标签', 'HEAD')
+    .option('--path <globs...>', '仅包含修改了这些路径的提交 (glob)')
     .option('--format <format>', '输出格式 (table|json)', 'table')
+    .option('--config <file>', '配置文件路径')
     .action(async (options) => {
       try {
         const spinner = logger.startSpinner('正在分析提交统计...')
 
+        // 加载配置
+        const config = await loadConfig(options.config)
+
         // 如果没有指定 from，尝试获取最新 tag
         let from = options.from
         if (!from) {
-          from = await getLatestTag() || undefined
+          from = await getLatestTag(undefined, { ...config.tags, to: options.to }) || undefined
         }
 
         // 获取提交
-        const gitCommits = await getGitCommits(from, options.to)
+        const gitCommits = await getGitCommits(from, options.to, undefined, { paths: options.path })
         logger.debug(`获取到 ${gitCommits.length} 个提交`)
 
         // 获取仓库信息
@@ -42,6 +48,8 @@ export function createStatsCommand(): Command {
         const parser = createCommitParser({
           includeAllCommits: false,
           repositoryInfo: repoInfo || undefined,
+          preset: config.preset,
+          issuePatterns: config.issuePatterns,
         })
         const commits = parser.parse(gitCommits)
 
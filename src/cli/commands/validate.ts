@@ -7,6 +7,7 @@ import { join } from 'path'
 import chalk from 'chalk'
 import Table from 'cli-table3'
 import { createChangelogValidator } from '../../core/ChangelogValidator.js'
+import { createChangelogGenerator } from '../../core/ChangelogGenerator.js'
 import { logger } from '../../utils/logger.js'
 import { loadConfig } from '../config-loader.js'
 
@@ -17,7 +18,7 @@ export function createValidateCommand(): Command {
   const command = new Command('validate')
 
   command
-    .description('验证 Changelog 文件格式')
+    .description('验证 Changelog 文件格式和片段 front matter')
     .argument('[file]', 'Changelog 文件路径', 'CHANGELOG.md')
     .option('--config <file>', '配置文件路径')
     .option('--strict', '严格模式（将警告视为错误）', false)
@@ -38,6 +39,17 @@ export function createValidateCommand(): Command {
         // 验证文件
         const result = await validator.validateFile(filePath)
 
+        // 验证片段
+        const fragmentIssues = await createChangelogGenerator(config).getFragmentManager().validate()
+        for (const issue of fragmentIssues) {
+          result.errors.push({
+            type: 'invalid_fragment',
+            message: `片段 ${issue.file}: ${issue.message}`,
+            severity: 'error',
+          })
+        }
+        result.valid = result.valid && fragmentIssues.length === 0
+
         logger.stopSpinner(result.valid)
 
         if (options.json) {
@@ -26,7 +26,11 @@ import { createWatchCommand } from './commands/watch.js'
 import { createSearchCommand } from './commands/search.js'
 import { createAnalyzeCommand } from './commands/analyze.js'
 import { createInteractiveCommand } from './commands/interactive.js'
-import { logger } from '../utils/logger.js'
+import { createOverrideCommand } from './commands/override.js'
+import { createPluginManager } from '../core/PluginManager.js'
+import { loadPlugins } from '../plugins/loader.js'
+import { loadConfig } from './config-loader.js'
+import { logger, toError } from '../utils/logger.js'
 
 // 获取当前文件的目录
 const __filename = fileURLToPath(import.meta.url)
@@ -60,6 +64,44 @@ function showWelcome(): void {
   }) + '\n')
 }
 
+/**
+ * 获取命令行中的 --config 参数（插件命令需要在解析命令行之前注册）
+ */
+function getConfigFileArg(argv: string[]): string | undefined {
+  const index = argv.findIndex(arg => arg === '--config' || arg.startsWith('--config='))
+  if (index === -1) return undefined
+
+  const arg = argv[index]
+  return arg === '--config' ? argv[index + 1] : arg.slice('--config='.length)
+}
+
+/**
+ * 注册配置中的插件提供的命令
+ */
+async function registerPluginCommands(program: Command): Promise<void> {
+  try {
+    const config = await loadConfig(getConfigFileArg(process.argv))
+    if (!config.plugins || config.plugins.length === 0) return
+
+    const manager = createPluginManager(config)
+    for (const plugin of await loadPlugins(config.plugins, config.cwd || process.cwd(), manager.getContext())) {
+      manager.register(plugin)
+    }
+
+    const builtinCommands = new Set(program.commands)
+    await manager.registerCommands(program)
+
+    // 插件命令同样接受 --config（已用于加载插件）
+    for (const command of program.commands) {
+      if (!builtinCommands.has(command) && !command.options.some(option => option.long === '--config')) {
+        command.option('--config <file>', '配置文件路径')
+      }
+    }
+  } catch (error) {
+    logger.warn('加载插件命令失败', toError(error))
+  }
+}
+
 /**
  * 主函数
  */
@@ -107,6 +149,8 @@ async function main(): Promise<void> {
   program.addCommand(createSearchCommand())
   program.addCommand(createAnalyzeCommand())
   program.addCommand(createInteractiveCommand())
+  program.addCommand(createOverrideCommand())
+  await registerPluginCommands(program)
 
   // 解析命令行参数
   await program.parseAsync(process.argv)
@@ -0,0 +1,106 @@
+/**
+ * 版本递增规则
+ *
+ * 按提交类型、破坏性变更标记和 trailer 确定每个提交要求的版本递增级别，
+ * 并对 0.x 版本降一级递增（破坏性变更递增 minor，新功能递增 patch）。
+ */
+
+import * as semver from 'semver'
+import type { ChangelogCommit } from '../types/changelog.js'
+import type { BumpLevel, BumpRulesConfig } from '../types/config.js'
+
+/**
+ * 默认递增规则
+ */
+export const DEFAULT_BUMP_RULES: Required<BumpRulesConfig> = {
+  types: { feat: 'minor', fix: 'patch', perf: 'patch' },
+  breaking: 'major',
+  trailers: {},
+  preMajor: true,
+}
+
+/**
+ * 级别从高到低
+ */
+const LEVELS: BumpLevel[] = ['major', 'minor', 'patch']
+
+/**
+ * 取较高的级别
+ */
+export function maxBumpLevel(a: BumpLevel | undefined, b: BumpLevel | undefined): BumpLevel | undefined {
+  if (!a || !b) {
+    return a ?? b
+  }
+
+  return LEVELS.indexOf(a) <= LEVELS.indexOf(b) ? a : b
+}
+
+/**
+ * 版本递增规则
+ */
+export class BumpRules {
+  private config: Required<BumpRulesConfig>
+
+  constructor(config: BumpRulesConfig = {}) {
+    this.config = {
+      types: { ...DEFAULT_BUMP_RULES.types, ...config.types },
+      breaking: config.breaking ?? DEFAULT_BUMP_RULES.breaking,
+      trailers: config.trailers ?? DEFAULT_BUMP_RULES.trailers,
+      preMajor: config.preMajor ?? DEFAULT_BUMP_RULES.preMajor,
+    }
+  }
+
+  /**
+   * 获取提交要求的级别，未匹配任何规则时返回 undefined
+   */
+  getCommitLevel(commit: ChangelogCommit): BumpLevel | undefined {
+    let level = commit.breaking ? this.config.breaking : undefined
+    level = maxBumpLevel(level, this.config.types[commit.type])
+
+    for (const trailer of commit.trailers || []) {
+      const token = Object.keys(this.config.trailers)
+        .find(key => key.toLowerCase() === trailer.token.toLowerCase())
+      if (token) {
+        level = maxBumpLevel(level, this.config.trailers[token])
+      }
+    }
+
+    return level
+  }
+
+  /**
+   * 获取一组提交要求的最高级别
+   */
+  getLevel(commits: ChangelogCommit[]): BumpLevel | undefined {
+    return commits.reduce<BumpLevel | undefined>(
+      (level, commit) => maxBumpLevel(level, this.getCommitLevel(commit)),
+      undefined
+    )
+  }
+
+  /**
+   * 是否按 0.x 规则递增
+   */
+  isPreMajor(currentVersion: string): boolean {
+    const version = semver.parse(currentVersion)
+    return this.config.preMajor && version !== null && version.major === 0
+  }
+
+  /**
+   * 按当前版本调整级别（0.x 版本降一级）
+   */
+  adjust(level: BumpLevel, currentVersion: string): BumpLevel {
+    if (!this.isPreMajor(currentVersion) || level === 'patch') {
+      return level
+    }
+
+    return level === 'major' ? 'minor' : 'patch'
+  }
+}
+
+/**
+ * 创建版本递增规则
+ */
+export function createBumpRules(config?: BumpRulesConfig): BumpRules {
+  return new BumpRules(config)
+}
@@ -0,0 +1,308 @@
+/**
+ * Changelog 片段管理器
+ *
+ * 片段目录（默认 .changelog/unreleased）中的每个 Markdown 文件描述一条没有合适提交可以说明的变更，
+ * 生成时与提交条目合并，发布后归档到 `.changelog/<version>/`。
+ *
+ * 片段格式为 front matter + 正文，正文首个非空行作为条目主题：
+ *
+ * ```markdown
+ * ---
+ * type: feat
+ * scope: api
+ * breaking: true
+ * issues: [123, 456]
+ * migration: 将 foo() 替换为 bar()
+ * ---
+ * 新增批量导出接口
+ * ```
+ */
+
+import { mkdir, readdir, readFile, rename } from 'fs/promises'
+import { basename, dirname, join, relative, resolve } from 'path'
+import type { ChangelogCommit, ChangelogFragment, RepositoryInfo } from '../types/changelog.js'
+import { generateIssueLink } from '../utils/git-utils.js'
+import { fileExists } from '../utils/file.js'
+
+/**
+ * 默认片段目录
+ */
+export const DEFAULT_FRAGMENTS_DIR = '.changelog/unreleased'
+
+/**
+ * front matter 正则表达式
+ */
+const FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/
+
+/**
+ * 支持的 front matter 字段
+ */
+const FRAGMENT_KEYS = ['type', 'scope', 'breaking', 'issues', 'migration']
+
+/**
+ * 片段解析结果
+ */
+export interface FragmentParseResult {
+  /** 片段（存在错误时为 undefined） */
+  fragment?: ChangelogFragment
+
+  /** 错误列表 */
+  errors: string[]
+}
+
+/**
+ * 片段校验问题
+ */
+export interface FragmentIssue {
+  /** 片段文件路径（相对于工作目录） */
+  file: string
+
+  /** 问题描述 */
+  message: string
+}
+
+/**
+ * 去除值两侧的引号
+ */
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2')
+}
+
+/**
+ * 解析 front matter（`key: value`、`key: [a, b]` 以及 `- item` 列表）
+ */
+function parseFrontMatter(text: string): Map<string, string | string[]> {
+  const data = new Map<string, string | string[]>()
+  let lastKey: string | undefined
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue
+
+    const item = line.match(/^\s+-\s*(.*)$/)
+    if (item && lastKey) {
+      const current = data.get(lastKey)
+      data.set(lastKey, [...(Array.isArray(current) ? current : []), unquote(item[1])])
+      continue
+    }
+
+    const match = line.match(/^([\w-]+):\s*(.*)$/)
+    if (!match) {
+      data.set(line.trim(), '')
+      lastKey = undefined
+      continue
+    }
+
+    lastKey = match[1]
+    const value = match[2].trim()
+    const list = value.match(/^\[(.*)\]$/)
+    data.set(lastKey, list
+      ? list[1].split(',').map(unquote).filter(Boolean)
+      : unquote(value))
+  }
+
+  return data
+}
+
+/**
+ * 解析片段内容
+ *
+ * @param types - 允许的类型（为空时不校验类型）
+ */
+export function parseFragment(text: string, file: string, types: string[] = []): FragmentParseResult {
+  const match = text.match(FRONT_MATTER_REGEX)
+  if (!match) {
+    return { errors: ['缺少 front matter'] }
+  }
+
+  const data = parseFrontMatter(match[1])
+  const content = match[2].trim()
+  const errors: string[] = []
+
+  for (const key of data.keys()) {
+    if (!FRAGMENT_KEYS.includes(key)) {
+      errors.push(`未知字段: ${key}`)
+    }
+  }
+
+  const type = data.get('type')
+  if (typeof type !== 'string' || !type) {
+    errors.push('缺少 type 字段')
+  } else if (types.length > 0 && !types.includes(type)) {
+    errors.push(`未知类型: ${type}`)
+  }
+
+  for (const key of ['scope', 'migration', 'breaking']) {
+    if (Array.isArray(data.get(key))) {
+      errors.push(`${key} 字段必须为单个值`)
+    }
+  }
+
+  const breaking = data.get('breaking')
+  if (typeof breaking === 'string' && breaking && !/^(true|false)$/i.test(breaking)) {
+    errors.push('breaking 字段必须为 true 或 false')
+  }
+
+  if (!content) {
+    errors.push('正文为空')
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  const issues = data.get('issues')
+  const issueList = (Array.isArray(issues) ? issues : issues ? [issues] : [])
+    .map(issue => issue.replace(/^#/, ''))
+    .filter(Boolean)
+
+  return {
+    fragment: {
+      file,
+      type: type as string,
+      scope: (data.get('scope') as string) || undefined,
+      breaking: /^true$/i.test((breaking as string) || ''),
+      issues: issueList.length > 0 ? issueList : undefined,
+      migration: (data.get('migration') as string) || undefined,
+      content,
+    },
+    errors,
+  }
+}
+
+/**
+ * 将片段转换为 Changelog 条目
+ */
+export function fragmentToCommit(
+  fragment: ChangelogFragment,
+  date: string,
+  repositoryInfo?: RepositoryInfo | null
+): ChangelogCommit {
+  const [subject, ...rest] = fragment.content.split(/\r?\n/)
+  const body = rest.join('\n').trim()
+  const issueLinks = repositoryInfo && fragment.issues
+    ? fragment.issues.map(issue => generateIssueLink(issue, repositoryInfo))
+    : undefined
+
+  // 以片段文件作为唯一标识，避免按 hash 去重的插件合并不同片段
+  return {
+    hash: `fragment:${fragment.file}`,
+    shortHash: '',
+    type: fragment.type,
+    scope: fragment.scope,
+    subject: subject.trim(),
+    body: body || undefined,
+    author: { name: '', email: '' },
+    issues: fragment.issues,
+    issueLinks,
+    breaking: fragment.breaking || undefined,
+    breakingDescription: fragment.breaking ? subject.trim() : undefined,
+    migration: fragment.migration,
+    date,
+    fragment: fragment.file,
+  }
+}
+
+/**
+ * 片段管理器配置
+ */
+export interface FragmentManagerConfig {
+  /** 工作目录 */
+  cwd?: string
+
+  /** 片段目录（相对于工作目录） */
+  dir?: string
+
+  /** 允许的类型（为空时不校验类型） */
+  types?: string[]
+}
+
+/**
+ * 片段管理器
+ */
+export class FragmentManager {
+  private cwd: string
+  private dir: string
+  private types: string[]
+
+  constructor(config: FragmentManagerConfig = {}) {
+    this.cwd = config.cwd || process.cwd()
+    this.dir = config.dir ?? DEFAULT_FRAGMENTS_DIR
+    this.types = config.types || []
+  }
+
+  /**
+   * 列出片段文件（相对于工作目录，按文件名排序）
+   */
+  async list(): Promise<string[]> {
+    const dir = resolve(this.cwd, this.dir)
+    if (!this.dir || !fileExists(dir)) {
+      return []
+    }
+
+    const entries = await readdir(dir, { withFileTypes: true })
+    return entries
+      .filter(entry => entry.isFile() && entry.name.endsWith('.md'))
+      .map(entry => relative(this.cwd, join(dir, entry.name)))
+      .sort()
+  }
+
+  /**
+   * 加载所有片段（任一片段无效时抛出错误）
+   */
+  async load(): Promise<ChangelogFragment[]> {
+    const fragments: ChangelogFragment[] = []
+
+    for (const file of await this.list()) {
+      const { fragment, errors } = parseFragment(await readFile(resolve(this.cwd, file), 'utf-8'), file, this.types)
+      if (!fragment) {
+        throw new Error(`片段 ${file} 无效: ${errors.join('；')}`)
+      }
+      fragments.push(fragment)
+    }
+
+    return fragments
+  }
+
+  /**
+   * 校验所有片段的 front matter
+   */
+  async validate(): Promise<FragmentIssue[]> {
+    const issues: FragmentIssue[] = []
+
+    for (const file of await this.list()) {
+      const { errors } = parseFragment(await readFile(resolve(this.cwd, file), 'utf-8'), file, this.types)
+      issues.push(...errors.map(message => ({ file, message })))
+    }
+
+    return issues
+  }
+
+  /**
+   * 将已发布的片段归档到 `<片段目录的上级目录>/<version>/`
+   *
+   * @returns 归档后的文件路径（相对于工作目录）
+   */
+  async archive(files: string[], version: string): Promise<string[]> {
+    const archiveDir = join(dirname(resolve(this.cwd, this.dir)), version)
+    const archived: string[] = []
+
+    for (const file of files) {
+      const source = resolve(this.cwd, file)
+      if (!fileExists(source)) continue
+
+      const target = join(archiveDir, basename(file))
+      await mkdir(archiveDir, { recursive: true })
+      await rename(source, target)
+      archived.push(relative(this.cwd, target))
+    }
+
+    return archived
+  }
+}
+
+/**
+ * 创建片段管理器
+ */
+export function createFragmentManager(config?: FragmentManagerConfig): FragmentManager {
+  return new FragmentManager(config)
+}
@@ -2,12 +2,15 @@
  * Changelog 生成器
  */
 
-import { join } from 'path'
+import { readFileSync } from 'fs'
+import { join, resolve } from 'path'
 import type {
   ChangelogConfig,
+  OutputFormat,
 } from '../types/config.js'
-import { DEFAULT_CONFIG } from '../types/config.js'
+import { DEFAULT_CONFIG, DEFAULT_RELEASE_TAG_MESSAGE } from '../types/config.js'
 import type {
+  GitCommit,
   ChangelogContent,
   ChangelogSection,
   ChangelogCommit,
@@ -16,10 +19,21 @@ import type {
   RepositoryInfo,
 } from '../types/changelog.js'
 import { CommitParser } from './CommitParser.js'
+import { resolvePreset, resolvePresetTypes } from './CommitPresets.js'
+import { CommitOverrideManager } from './CommitOverrides.js'
+import { FragmentManager, fragmentToCommit } from './ChangelogFragments.js'
+import { SectionClassifier } from './SectionClassifier.js'
+import { CommitFilter } from './CommitFilter.js'
 import { StatsAnalyzer } from './StatsAnalyzer.js'
+import { createPluginManager } from './PluginManager.js'
+import { createTemplateEngine, detectTemplateEngine, loadTemplatePreset } from './TemplateEngine.js'
+import type { PluginManager, PluginHooks, PluginFormatter } from './PluginManager.js'
+import { loadPlugins } from '../plugins/loader.js'
 import { DependencyTracker } from './DependencyTracker.js'
 import { SecurityScanner } from './SecurityScanner.js'
 import type { SecurityIssue } from './SecurityScanner.js'
+import { VersionAnalyzer } from './VersionAnalyzer.js'
+import type { VersionAnalysisResult } from '../types/ai.js'
 import {
   createMarkdownFormatter,
   createJsonFormatter,
@@ -27,7 +41,10 @@ import {
 } from '../formatters/index.js'
 import {
   getGitCommits,
-  getLatestTag,
+  getVersionTags,
+  getTagDate,
+  getTagMessage,
+  parseTagVersion,
   getRepositoryInfo,
   generateCompareLink,
 } from '../utils/git-utils.js'
@@ -37,21 +54,122 @@ import {
   fileExists,
   backupFile,
 } from '../utils/file.js'
+import { getBaseVersion, isPrerelease, isValidVersion } from '../utils/version.js'
 import { logger, toError } from '../utils/logger.js'
 
+/**
+ * Unreleased 版本名称
+ */
+export const UNRELEASED_VERSION = 'Unreleased'
+
+/**
+ * 是否为 Unreleased 版本
+ */
+export function isUnreleasedVersion(version: string): boolean {
+  return version.toLowerCase() === UNRELEASED_VERSION.toLowerCase()
+}
+
+/**
+ * 保留文本标记：重新生成版本块时，标记之间的手写内容会被保留
+ */
+export const PRESERVE_START = '<!-- changelog-preserve -->'
+export const PRESERVE_END = '<!-- /changelog-preserve -->'
+
+/**
+ * 保留文本正则表达式
+ */
+const PRESERVED_TEXT_REGEX = new RegExp(`${PRESERVE_START}[\\s\\S]*?${PRESERVE_END}`, 'g')
+
+/**
+ * JSON Changelog 中的版本条目
+ */
+interface JsonVersionEntry {
+  /** 版本号 */
+  version?: string
+
+  /** 手写内容（重新生成时保留） */
+  preserved?: unknown
+
+  [key: string]: unknown
+}
+
+/**
+ * JSON Changelog 文档
+ */
+interface JsonChangelogDocument {
+  /** 版本条目 */
+  versions: JsonVersionEntry[]
+
+  [key: string]: unknown
+}
+
+/**
+ * 生成选项
+ */
+export interface GenerateOptions {
+  /** 路径过滤（glob），仅包含修改了这些路径的提交 */
+  paths?: string[]
+
+  /** 发布日期（YYYY-MM-DD），默认为当天 */
+  date?: string
+
+  /** 是否合并片段目录中的片段（生成到 HEAD 时默认合并） */
+  fragments?: boolean
+
+  /** 正式版本汇总的预发布版本标签（按版本从旧到新），未指定 from 时自动确定 */
+  prereleases?: string[]
+}
+
+/**
+ * 版本推荐结果
+ */
+export interface VersionRecommendation {
+  /** 参与分析的提交（与生成 Changelog 时相同） */
+  commits: ChangelogCommit[]
+
+  /** 分析结果 */
+  result: VersionAnalysisResult
+
+  /** 推荐是否达到置信度阈值 */
+  confident: boolean
+
+  /** 置信度阈值 */
+  threshold: number
+}
+
+/**
+ * 完整历史生成选项
+ */
+export interface HistoryOptions {
+  /** 路径过滤（glob），仅包含修改了这些路径的提交 */
+  paths?: string[]
+
+  /** 是否在最前面包含最新标签之后的 Unreleased 版本（无提交时省略） */
+  includeUnreleased?: boolean
+
+  /** Unreleased 版本名称 */
+  unreleasedVersion?: string
+}
+
 /**
  * Changelog 生成器
  */
 export class ChangelogGenerator {
   private config: Required<Omit<ChangelogConfig, 'template' | 'repositoryUrl' | 'formatOptions'>> & {
-    template?: string
+    template?: ChangelogConfig['template']
     repositoryUrl?: string
     formatOptions?: ChangelogConfig['formatOptions']
   }
   private parser: CommitParser
+  private overrideManager: CommitOverrideManager
+  private fragmentManager: FragmentManager
+  private classifier: SectionClassifier
+  private commitFilter: CommitFilter
   private analyzer: StatsAnalyzer
   private dependencyTracker: DependencyTracker
   private securityScanner: SecurityScanner
+  private pluginManager: PluginManager
+  private pluginsLoaded: Promise<void> | null = null
   private repoInfo: RepositoryInfo | null = null
   private trackDependencies: boolean = false
   private scanSecurity: boolean = false
@@ -63,14 +181,41 @@ export class ChangelogGenerator {
       ...config,
     }
 
+    // 解析提交规范预设（未自定义 types 时使用预设的类型映射）
+    const preset = resolvePreset(this.config.preset)
+    this.config.types = resolvePresetTypes(preset, config.types)
+
     // 初始化解析器和分析器
     this.parser = new CommitParser({
+      preset,
       includeAllCommits: this.config.includeAllCommits,
+      expandSquashCommits: this.config.expandSquashCommits,
+      issuePatterns: this.config.issuePatterns,
       hiddenTypes: this.config.types
         .filter(t => t.hidden)
         .map(t => t.type),
     })
 
+    this.pluginManager = createPluginManager(this.config)
+
+    this.overrideManager = new CommitOverrideManager({
+      cwd: this.config.cwd,
+      notesRef: this.config.notesRef,
+    })
+
+    this.classifier = new SectionClassifier({
+      rules: this.config.sectionRules,
+      types: this.config.types,
+    })
+
+    this.commitFilter = new CommitFilter(this.config.exclude)
+
+    this.fragmentManager = new FragmentManager({
+      cwd: this.config.cwd,
+      dir: this.config.fragmentsDir,
+      types: this.config.types.map(t => t.type),
+    })
+
     this.analyzer = new StatsAnalyzer({
       calculatePercentage: true,
       analyzeFrequency: true,
@@ -147,25 +292,237 @@ export class ChangelogGenerator {
     logger.debug(`安全扫描已${enabled ? '启用' : '禁用'}`)
   }
 
+  /**
+   * 获取片段管理器
+   */
+  getFragmentManager(): FragmentManager {
+    return this.fragmentManager
+  }
+
+  /**
+   * 归档版本内容中合并的片段
+   *
+   * @returns 归档后的文件路径
+   */
+  async archiveFragments(content: ChangelogContent): Promise<string[]> {
+    const files = content.commits
+      .map(commit => commit.fragment)
+      .filter((file): file is string => !!file)
+
+    return this.fragmentManager.archive(files, content.version)
+  }
+
+  /**
+   * 获取插件管理器
+   */
+  getPluginManager(): PluginManager {
+    return this.pluginManager
+  }
+
+  /**
+   * 加载配置中的插件（仅加载一次）
+   */
+  private loadPlugins(): Promise<void> {
+    if (!this.pluginsLoaded) {
+      this.pluginsLoaded = loadPlugins(this.config.plugins, this.config.cwd, this.pluginManager.getContext())
+        .then((plugins) => {
+          for (const plugin of plugins) {
+            this.pluginManager.register(plugin)
+          }
+        })
+    }
+
+    return this.pluginsLoaded
+  }
+
+  /**
+   * 执行插件钩子
+   */
+  private async runHook<K extends keyof PluginHooks>(
+    hookName: K,
+    ...args: Parameters<NonNullable<PluginHooks[K]>>
+  ): Promise<Awaited<ReturnType<NonNullable<PluginHooks[K]>>>> {
+    await this.loadPlugins()
+    return this.pluginManager.executeHook(hookName, ...args)
+  }
+
   /**
    * 生成 Changelog
    */
-  async generate(version: string, from?: string, to = 'HEAD'): Promise<ChangelogContent> {
+  async generate(
+    version: string,
+    from?: string,
+    to = 'HEAD',
+    options: GenerateOptions = {}
+  ): Promise<ChangelogContent> {
     logger.info(`正在生成版本 ${version} 的 Changelog...`)
 
-    // 如果没有指定 from，尝试获取最新 tag
+    // 如果没有指定 from，取从 to 可达的上一个版本标签
+    let prereleases: string[] = []
     if (!from) {
-      from = await getLatestTag(this.config.cwd) || undefined
+      const tags = await getVersionTags(this.config.cwd, {
+        ...this.config.tags,
+        to,
+        excludeTarget: to !== 'HEAD',
+      }).catch(() => [])
+      ;({ from, prereleases } = this.resolvePreviousTag(version, tags))
+    }
+
+    const content = await this.buildContent(version, from, to, { fragments: to === 'HEAD', prereleases, ...options })
+    logger.success(`成功生成 Changelog，包含 ${content.commits.length} 个提交`)
+
+    return content
+  }
+
+  /**
+   * 按递增规则推荐下一个版本
+   *
+   * 提交与生成 Changelog 时相同（应用排除规则、覆盖、片段和插件），
+   * release --type auto、analyze 和 UI 的推荐因此保持一致。
+   */
+  async recommendVersion(currentVersion: string, from?: string, to = 'HEAD'): Promise<VersionRecommendation> {
+    const { commits } = await this.generate(UNRELEASED_VERSION, from, to)
+
+    const analyzer = new VersionAnalyzer({
+      currentVersion,
+      confidenceThreshold: this.config.release.confidenceThreshold,
+      bumpRules: this.config.bumpRules,
+    })
+    const result = analyzer.analyze(commits)
+
+    return {
+      commits,
+      result,
+      confident: analyzer.isConfident(result.recommended),
+      threshold: analyzer.getConfidenceThreshold(),
+    }
+  }
+
+  /**
+   * 生成完整历史
+   *
+   * 遍历所有版本标签，为每个标签生成一个版本（使用标签日期作为发布日期），按从新到旧排列。
+   * 正式版本从上一个正式版本开始汇总；collapse 模式下省略已发布正式版本的预发布版本。
+   */
+  async generateHistory(options: HistoryOptions = {}): Promise<ChangelogContent[]> {
+    const tags = (await getVersionTags(this.config.cwd, this.config.tags)).reverse()
+    logger.info(`正在生成 ${tags.length} 个版本的完整 Changelog...`)
+
+    const versions = tags.map(tag => this.getTagVersion(tag))
+    const contents: ChangelogContent[] = []
+
+    for (const [index, tag] of tags.entries()) {
+      const version = versions[index]
+      if (this.config.prerelease.mode === 'collapse' && isPrerelease(version)
+        && versions.includes(getBaseVersion(version))) {
+        continue
+      }
+
+      const { from, prereleases } = this.resolvePreviousTag(version, tags.slice(0, index).reverse())
+      const date = await getTagDate(tag, this.config.cwd)
+      contents.unshift(await this.buildContent(version, from, tag, { paths: options.paths, date, prereleases }))
     }
 
+    const previous = tags[tags.length - 1]
+
+    if (options.includeUnreleased) {
+      const unreleased = await this.buildContent(
+        options.unreleasedVersion || UNRELEASED_VERSION,
+        previous,
+        'HEAD',
+        { paths: options.paths, fragments: true }
+      )
+      if (unreleased.commits.length > 0) {
+        contents.unshift(unreleased)
+      }
+    }
+
+    logger.success(`成功生成 ${contents.length} 个版本的 Changelog`)
+
+    return contents
+  }
+
+  /**
+   * 确定版本的上一个标签
+   *
+   * 正式版本从上一个正式版本开始，并汇总期间的预发布版本（separate 模式除外）；
+   * 预发布版本和 Unreleased 从上一个标签开始。
+   *
+   * @param tags - 早于该版本的版本标签（按版本号降序）
+   */
+  private resolvePreviousTag(version: string, tags: string[]): { from?: string; prereleases: string[] } {
+    if (this.config.prerelease.mode === 'separate' || !isValidVersion(version) || isPrerelease(version)) {
+      return { from: tags[0], prereleases: [] }
+    }
+
+    const index = tags.findIndex(tag => !isPrerelease(this.getTagVersion(tag)))
+    if (index === -1) {
+      return { from: undefined, prereleases: [...tags].reverse() }
+    }
+
+    return { from: tags[index], prereleases: tags.slice(0, index).reverse() }
+  }
+
+  /**
+   * 获取标签对应的版本号
+   */
+  private getTagVersion(tag: string): string {
+    return parseTagVersion(tag, this.config.tags.prefix) || tag
+  }
+
+  /**
+   * 按提交范围构建版本内容
+   */
+  private async buildContent(
+    version: string,
+    from: string | undefined,
+    to: string,
+    options: GenerateOptions
+  ): Promise<ChangelogContent> {
     // 获取提交
-    const gitCommits = await getGitCommits(from, to, this.config.cwd)
+    const gitCommits = await this.runHook(
+      'beforeParse',
+      await getGitCommits(from, to, this.config.cwd, {
+        paths: options.paths,
+        files: this.classifier.needsFiles() || this.commitFilter.needsFiles(),
+      })
+    )
     logger.debug(`获取到 ${gitCommits.length} 个提交`)
 
-    // 解析提交
-    const commits = this.parser.parse(gitCommits)
+    // 加载 git notes 中的提交覆盖
+    if (this.config.notesRef) {
+      const overrides = await this.overrideManager.load(from, to)
+      this.parser.setConfig({ overrides })
+      logger.debug(`加载了 ${overrides.size} 个提交覆盖`)
+    }
+
+    // 解析提交，并抵消同一范围内的提交与其回滚
+    const date = options.date || new Date().toISOString().split('T')[0]
+    const resolved = this.resolveReverts(this.parser.parse(gitCommits), gitCommits)
+
+    // 应用排除规则
+    const { commits: parsed, excluded } = this.commitFilter.filter(resolved)
+    if (excluded.total > 0) {
+      logger.debug(`排除了 ${excluded.total} 个提交`)
+    }
+
+    // 合并片段条目
+    if (options.fragments) {
+      const fragments = await this.fragmentManager.load()
+      parsed.push(...fragments.map(fragment => fragmentToCommit(fragment, date, this.repoInfo)))
+      logger.debug(`合并了 ${fragments.length} 个片段`)
+    }
+    const base = await this.runHook('beforeGenerate', {
+      version,
+      date,
+      commits: await this.runHook('afterParse', parsed),
+    })
+    const commits = base.commits || []
     logger.debug(`解析了 ${commits.length} 个有效提交`)
 
+    // 片段条目没有对应的提交，不参与依赖追踪、贡献者和统计
+    const commitEntries = commits.filter(commit => !commit.fragment)
+
     // 按类型分组
     let sections = this.createSections(commits)
 
@@ -193,7 +550,7 @@ export class ChangelogGenerator {
     if (this.trackDependencies) {
       try {
         logger.debug('正在追踪依赖变更...')
-        const dependencyChanges = await this.dependencyTracker.extractChanges(commits)
+        const dependencyChanges = await this.dependencyTracker.extractChanges(commitEntries)
 
         if (dependencyChanges.length > 0) {
           const dependencySection = this.dependencyTracker.formatChanges(dependencyChanges)
@@ -213,17 +570,24 @@ export class ChangelogGenerator {
     const breakingChanges = this.extractBreakingChanges(commits)
 
     // 提取贡献者
-    const contributors = this.extractContributors(commits)
+    const contributors = this.extractContributors(commitEntries)
 
     // 统计分析
-    const stats = this.analyzer.analyze(commits)
+    const stats = this.analyzer.analyze(commitEntries)
 
     // 生成比较链接
     const compareUrl = this.generateCompareUrl(from, to)
+    const prereleases = (options.prereleases || []).map((tag, index, list) => ({
+      version: this.getTagVersion(tag),
+      compareUrl: this.generateCompareUrl(index === 0 ? from : list[index - 1], tag),
+    }))
 
     const content: ChangelogContent = {
-      version,
-      date: new Date().toISOString().split('T')[0],
+      ...base,
+      version: base.version || version,
+      date: base.date || date,
+      intro: base.intro ?? await this.loadIntro(version, to),
+      prereleases: prereleases.length > 0 ? prereleases : undefined,
       sections,
       commits,
       breakingChanges: breakingChanges.length > 0 ? breakingChanges : undefined,
@@ -236,13 +600,73 @@ export class ChangelogGenerator {
         prCount: stats.references.prCount,
         commitsPerDay: stats.frequency.commitsPerDay,
         durationDays: stats.frequency.durationDays,
+        excluded: excluded.total > 0 ? excluded : undefined,
       },
       compareUrl,
     }
 
-    logger.success(`成功生成 Changelog，包含 ${commits.length} 个提交`)
+    return await this.runHook('afterGenerate', content)
+  }
+
+  /**
+   * 处理回滚提交
+   *
+   * 从新到旧遍历回滚提交：被回滚的提交位于当前范围内时，两者一并移除；
+   * 否则保留回滚提交，归入回滚章节并链接原始条目。
+   */
+  private resolveReverts(commits: ChangelogCommit[], gitCommits: GitCommit[]): ChangelogCommit[] {
+    const removed = new Set<string>()
+    const findInRange = (hash: string) => gitCommits.find(c => c.hash.startsWith(hash) && !removed.has(c.hash))
+
+    const reverts = commits
+      .filter(c => c.revert)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+
+    for (const commit of reverts) {
+      if (removed.has(commit.hash)) continue
+
+      const target = findInRange(commit.revert!.hash)
+      if (target && target.hash !== commit.hash) {
+        removed.add(commit.hash)
+        removed.add(target.hash)
+        logger.debug(`回滚提交 ${commit.shortHash} 与 ${target.shortHash} 相互抵消`)
+      }
+    }
+
+    return removed.size > 0 ? commits.filter(c => !removed.has(c.hash)) : commits
+  }
 
-    return content
+  /**
+   * 读取版本简介：优先使用 `<introDir>/<version>.md`，其次使用版本标签的附注消息
+   */
+  private async loadIntro(version: string, to: string): Promise<string | undefined> {
+    if (this.config.introDir) {
+      const file = resolve(this.config.cwd, this.config.introDir, `${version}.md`)
+      if (fileExists(file)) {
+        return (await readFileContent(file)).trim() || undefined
+      }
+    }
+
+    const tag = to !== 'HEAD' ? to : `${this.config.tags.prefix ?? 'v'}${version}`
+    try {
+      const message = await getTagMessage(tag, this.config.cwd)
+      return message && !this.isReleaseTagMessage(message) ? message : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * 是否为 release 命令按 tagMessage 模板生成的标签消息（不作为简介）
+   */
+  private isReleaseTagMessage(message: string): boolean {
+    const template = this.config.release.tagMessage || DEFAULT_RELEASE_TAG_MESSAGE
+    const source = template
+      .split(/\{(?:version|tag)\}/)
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('\\S+')
+
+    return new RegExp(`^${source}$`).test(message.trim())
   }
 
   /**
@@ -257,29 +681,8 @@ export class ChangelogGenerator {
       }]
     }
 
-    const groups = this.parser.groupByType(commits)
-    const sections: ChangelogSection[] = []
-
-    for (const [type, typeCommits] of groups) {
-      const typeConfig = this.config.types.find(t => t.type === type)
-      const title = typeConfig?.section || type
-
-      sections.push({
-        title,
-        type,
-        commits: typeCommits,
-        priority: typeConfig?.priority,
-      })
-    }
-
-    // 按优先级排序
-    sections.sort((a, b) => {
-      const aPriority = a.priority ?? 999
-      const bPriority = b.priority ?? 999
-      return aPriority - bPriority
-    })
-
-    return sections
+    // 先按章节规则分类，其余按类型分组，并按优先级排序
+    return this.classifier.classify(commits)
   }
 
   /**
@@ -344,32 +747,49 @@ export class ChangelogGenerator {
       .map(c => ({
         description: c.breakingDescription || c.subject,
         commit: c,
+        migration: c.migration,
       }))
   }
 
   /**
    * 提取贡献者
+   *
+   * 按提交 hash 计数：展开的 squash 提交的多个条目只计为一次提交。
    */
   private extractContributors(commits: ChangelogCommit[]): Contributor[] {
     const contributorMap = new Map<string, Contributor>()
-
-    for (const commit of commits) {
-      const key = commit.author.email
+    const counted = new Set<string>()
+    const getContributor = (identity: { name: string; email: string; username?: string }) => {
+      const key = identity.email.toLowerCase()
 
       if (!contributorMap.has(key)) {
         contributorMap.set(key, {
-          name: commit.author.name,
-          email: commit.author.email,
-          username: commit.author.username,
+          name: identity.name,
+          email: identity.email,
+          username: identity.username,
           commitCount: 0,
         })
       }
 
-      const contributor = contributorMap.get(key)!
-      contributor.commitCount++
+      return contributorMap.get(key)!
+    }
+
+    for (const commit of commits) {
+      if (counted.has(commit.hash)) continue
+      counted.add(commit.hash)
+
+      getContributor(commit.author).commitCount++
+
+      // 共同作者
+      for (const coAuthor of commit.coAuthors || []) {
+        const contributor = getContributor(coAuthor)
+        contributor.coAuthoredCount = (contributor.coAuthoredCount || 0) + 1
+      }
     }
 
-    return Array.from(contributorMap.values()).sort((a, b) => b.commitCount - a.commitCount)
+    return Array.from(contributorMap.values()).sort((a, b) =>
+      b.commitCount - a.commitCount || (b.coAuthoredCount || 0) - (a.coAuthoredCount || 0)
+    )
   }
 
   /**
@@ -394,41 +814,130 @@ export class ChangelogGenerator {
   /**
    * 格式化 Changelog
    */
-  format(content: ChangelogContent, format?: 'markdown' | 'json' | 'html'): string {
-    const outputFormat = format || this.config.format
+  format(content: ChangelogContent, format?: OutputFormat): string {
+    return this.createFormatter(format).format(content)
+  }
+
+  /**
+   * 执行格式化相关插件钩子并格式化 Changelog
+   */
+  async render(content: ChangelogContent, format?: OutputFormat): Promise<string> {
+    const prepared = await this.runHook('beforeFormat', content)
+    return await this.runHook('afterFormat', this.format(prepared, format), prepared)
+  }
+
+  /**
+   * 执行格式化前插件钩子并格式化完整历史
+   */
+  async renderHistory(contents: ChangelogContent[], format?: OutputFormat): Promise<string> {
+    const prepared: ChangelogContent[] = []
+    for (const content of contents) {
+      prepared.push(await this.runHook('beforeFormat', content))
+    }
+
+    return this.formatHistory(prepared, format)
+  }
+
+  /**
+   * 格式化完整历史
+   */
+  formatHistory(contents: ChangelogContent[], format?: OutputFormat): string {
+    const formatter = this.createFormatter(format)
+
+    return formatter.formatComplete
+      ? formatter.formatComplete(contents)
+      : contents.map(content => formatter.format(content)).join('\n\n')
+  }
+
+  /**
+   * 创建格式化器
+   *
+   * 插件注册的格式化器在插件加载后可用（generate / render 会自动加载插件）。
+   */
+  private createFormatter(format?: OutputFormat): PluginFormatter {
+    const outputFormat = format || this.config.format || 'markdown'
+
+    if (this.config.template) {
+      return this.createTemplateFormatter(outputFormat)
+    }
 
     switch (outputFormat) {
-      case 'json': {
-        const formatter = createJsonFormatter({
+      case 'json':
+        return createJsonFormatter({
           options: this.config.formatOptions?.json,
         })
-        return formatter.format(content)
-      }
 
-      case 'html': {
-        const formatter = createHtmlFormatter({
+      case 'html':
+        return createHtmlFormatter({
           includeAuthors: this.config.includeAuthors,
           includePRLinks: this.config.includePRLinks,
           includeCommitHash: this.config.includeCommitHash,
           options: this.config.formatOptions?.html,
         })
-        return formatter.format(content)
-      }
 
       case 'markdown':
-      default: {
-        const formatter = createMarkdownFormatter({
+        return createMarkdownFormatter({
           includeAuthors: this.config.includeAuthors,
           includePRLinks: this.config.includePRLinks,
           includeCommitHash: this.config.includeCommitHash,
           headerFormat: this.config.headerFormat,
           options: this.config.formatOptions?.markdown,
         })
-        return formatter.format(content)
+
+      default: {
+        const formatter = this.pluginManager.getFormatter(outputFormat)
+        if (!formatter) {
+          throw new Error(`未知的输出格式: ${outputFormat}`)
+        }
+        return formatter
       }
     }
   }
 
+  /**
+   * 创建模板格式化器
+   */
+  private createTemplateFormatter(format: OutputFormat): PluginFormatter {
+    const template = typeof this.config.template === 'string'
+      ? { path: this.config.template }
+      : this.config.template!
+
+    // 预设提供主模板和 partial，path / partials 可分别覆盖
+    const preset = template.preset ? loadTemplatePreset(template.preset) : null
+    if (!preset && !template.path) {
+      throw new Error('模板配置缺少 path 或 preset')
+    }
+
+    const templateContent = template.path ? this.readTemplateFile(template.path) : preset!.template
+    const partials = { ...preset?.partials }
+    for (const [name, file] of Object.entries(template.partials || {})) {
+      if (file) partials[name] = this.readTemplateFile(file)
+    }
+
+    const engine = createTemplateEngine({
+      engine: template.engine || (template.path ? detectTemplateEngine(template.path) : 'handlebars'),
+      helpers: template.helpers,
+      variables: { ...preset?.variables, ...template.variables },
+      partials,
+      escape: format === 'html',
+    })
+
+    return {
+      format: content => engine.renderString(templateContent, content),
+    }
+  }
+
+  /**
+   * 读取模板文件（相对于 cwd）
+   */
+  private readTemplateFile(file: string): string {
+    try {
+      return readFileSync(resolve(this.config.cwd, file), 'utf-8')
+    } catch {
+      throw new Error(`模板文件不存在: ${file}`)
+    }
+  }
+
   /**
    * 写入 Changelog
    */
@@ -436,37 +945,64 @@ export class ChangelogGenerator {
     const outputPath = join(this.config.cwd, this.config.output)
 
     // 格式化内容
-    const formatted = this.format(content)
+    const rendered = await this.render(content)
+
+    // collapse 模式下移除被汇总的预发布版本块
+    const collapsed = this.config.prerelease.mode === 'collapse'
+      ? (content.prereleases || []).map(prerelease => prerelease.version)
+      : []
 
     // 如果文件存在且不是重新生成模式，则合并内容
-    if (fileExists(outputPath) && !this.config.regenerate) {
-      await this.mergeChangelog(outputPath, formatted)
-    } else {
-      // 直接写入
-      await this.writeNewChangelog(outputPath, formatted)
-    }
+    const merged = fileExists(outputPath) && !this.config.regenerate
+      ? await this.mergeChangelog(outputPath, rendered, content.version, collapsed)
+      : this.createNewChangelog(rendered)
+
+    // beforeWrite 作用于最终写入的完整文件
+    const formatted = await this.runHook('beforeWrite', merged, outputPath)
+    await writeFileContent(outputPath, formatted)
 
+    await this.runHook('afterWrite', outputPath)
     logger.success(`Changelog 已写入: ${outputPath}`)
   }
 
   /**
-   * 写入新 Changelog
+   * 写入完整历史（覆盖已有文件，写入前备份）
    */
-  private async writeNewChangelog(path: string, content: string): Promise<void> {
-    let finalContent = content
+  async writeHistory(contents: ChangelogContent[]): Promise<void> {
+    const outputPath = join(this.config.cwd, this.config.output)
+
+    if (fileExists(outputPath)) {
+      await backupFile(outputPath)
+    }
+
+    const formatted = await this.runHook('beforeWrite', await this.renderHistory(contents), outputPath)
+    await writeFileContent(outputPath, formatted)
+
+    await this.runHook('afterWrite', outputPath)
+    logger.success(`Changelog 已写入: ${outputPath}`)
+  }
 
+  /**
+   * 生成新 Changelog 的内容
+   */
+  private createNewChangelog(content: string): string {
     // 如果是 Markdown 格式，添加标题
     if (this.config.format === 'markdown' && !content.startsWith('# ')) {
-      finalContent = `# Changelog\n\n${content}`
+      return `# Changelog\n\n${content}`
     }
 
-    await writeFileContent(path, finalContent)
+    return content
   }
 
   /**
-   * 合并 Changelog
+   * 合并 Changelog，返回合并后的内容
    */
-  private async mergeChangelog(path: string, newContent: string): Promise<void> {
+  private async mergeChangelog(
+    path: string,
+    newContent: string,
+    version: string,
+    collapsed: string[] = []
+  ): Promise<string> {
     // 备份原文件
     await backupFile(path)
 
@@ -479,25 +1015,48 @@ export class ChangelogGenerator {
       // 覆盖模式：直接使用新内容
       mergedContent = newContent
     } else if (this.config.format === 'markdown') {
-      mergedContent = this.mergeMarkdownChangelog(existingContent, newContent, updateMode)
+      const remaining = this.removeMarkdownVersionBlocks(existingContent, collapsed)
+      mergedContent = this.mergeMarkdownChangelog(remaining, newContent, updateMode, version)
     } else if (this.config.format === 'json') {
-      mergedContent = this.mergeJsonChangelog(existingContent, newContent, updateMode)
+      mergedContent = this.mergeJsonChangelog(existingContent, newContent, updateMode, collapsed)
     } else {
       // HTML 格式：不支持合并，直接覆盖
       mergedContent = newContent
     }
 
-    await writeFileContent(path, mergedContent)
+    return mergedContent
   }
 
   /**
    * 合并 Markdown Changelog
+   *
+   * 已有同版本块时原地替换；已有 Unreleased 块时：生成 Unreleased 会原地重写该块，
+   * 生成正式版本会用新版本替换该块，并在其上方保留一个新的空 Unreleased 块。
+   * 被替换块中的保留文本（PRESERVE_START / PRESERVE_END 之间）会移到新块标题之后。
    */
   private mergeMarkdownChangelog(
     existing: string,
     newContent: string,
-    mode: 'prepend' | 'append'
+    mode: 'prepend' | 'append',
+    version?: string
   ): string {
+    const level = this.getVersionHeadingLevel()
+
+    const current = version ? this.findMarkdownVersionBlock(existing, version, level) : null
+    if (current) {
+      return this.replaceMarkdownBlock(existing, current, newContent)
+    }
+
+    const unreleased = this.findMarkdownVersionBlock(existing, UNRELEASED_VERSION, level)
+    if (unreleased) {
+      if (version && isUnreleasedVersion(version)) {
+        return this.replaceMarkdownBlock(existing, unreleased, newContent)
+      }
+
+      const released = this.replaceMarkdownBlock(existing, unreleased, newContent)
+      return `${released.slice(0, unreleased.start)}${'#'.repeat(level)} [${UNRELEASED_VERSION}]\n\n${released.slice(unreleased.start)}`
+    }
+
     // 提取标题
     const headerMatch = existing.match(/^#\s+.+\n+/)
     const header = headerMatch ? headerMatch[0] : ''
@@ -512,30 +1071,120 @@ export class ChangelogGenerator {
     }
   }
 
+  /**
+   * 版本标题的层级（由 headerFormat 决定，默认二级标题）
+   */
+  private getVersionHeadingLevel(): number {
+    const match = this.config.headerFormat.match(/^(#{1,6})\s/)
+    return match ? match[1].length : 2
+  }
+
+  /**
+   * 查找 Markdown 中指定版本的块（从版本标题到下一个同级或更高级标题）
+   *
+   * 版本号前允许一个前导词，以匹配 `## Release 1.0.0` 这类预设标题
+   */
+  private findMarkdownVersionBlock(
+    text: string,
+    version: string,
+    level: number
+  ): { start: number; end: number } | null {
+    const escaped = version.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const heading = new RegExp(`^#{${level}}\\s+(?:[a-z]+\\s+)?\\[?v?${escaped}\\]?(?=[\\s(]|$)`, 'im')
+    const match = heading.exec(text)
+    if (!match) return null
+
+    const start = match.index
+    const rest = text.slice(start + match[0].length)
+    const next = new RegExp(`^#{1,${level}}\\s`, 'm').exec(rest)
+
+    return {
+      start,
+      end: next ? start + match[0].length + next.index : text.length,
+    }
+  }
+
+  /**
+   * 移除 Markdown 中指定版本的块
+   */
+  private removeMarkdownVersionBlocks(text: string, versions: string[]): string {
+    const level = this.getVersionHeadingLevel()
+
+    for (const version of versions) {
+      const block = this.findMarkdownVersionBlock(text, version, level)
+      if (block) {
+        text = `${text.slice(0, block.start)}${text.slice(block.end)}`
+      }
+    }
+
+    return text
+  }
+
+  /**
+   * 替换 Markdown 块（保留原块中的保留文本）
+   */
+  private replaceMarkdownBlock(text: string, block: { start: number; end: number }, replacement: string): string {
+    const preserved = text.slice(block.start, block.end).match(PRESERVED_TEXT_REGEX)
+    if (preserved) {
+      const [heading, ...rest] = replacement.split('\n')
+      replacement = [heading, '', preserved.join('\n\n'), ...rest].join('\n')
+    }
+
+    const after = text.slice(block.end)
+    return `${text.slice(0, block.start)}${replacement.trimEnd()}\n${after ? `\n${after}` : ''}`
+  }
+
   /**
    * 合并 JSON Changelog
+   *
+   * 与 Markdown 相同：同版本条目原地替换；已有 Unreleased 条目时，生成 Unreleased 会原地重写该条目，
+   * 生成正式版本会用新版本替换该条目，并在其前面保留一个新的空 Unreleased 条目。
+   * 被替换条目中手写的 preserved 字段会保留到新条目中。
    */
   private mergeJsonChangelog(
     existing: string,
     newContent: string,
-    mode: 'prepend' | 'append'
+    mode: 'prepend' | 'append',
+    collapsed: string[] = []
   ): string {
     try {
-      const existingData = JSON.parse(existing)
-      const newData = JSON.parse(newContent)
-
-      if (!existingData.versions) {
-        existingData.versions = []
+      const parsed = JSON.parse(existing)
+      const newData: JsonVersionEntry = JSON.parse(newContent)
+
+      // 单版本文档视为只包含该版本的历史
+      const document: JsonChangelogDocument = Array.isArray(parsed.versions)
+        ? parsed
+        : typeof parsed.version === 'string'
+          ? { versions: [parsed] }
+          : { ...parsed, versions: [] }
+
+      // 移除被汇总的预发布版本
+      const versions = document.versions.filter(entry => !(entry?.version && collapsed.includes(entry.version)))
+      const isUnreleasedEntry = (entry: JsonVersionEntry) =>
+        typeof entry?.version === 'string' && isUnreleasedVersion(entry.version)
+      const replace = (index: number) => {
+        const preserved = versions[index].preserved
+        versions[index] = preserved !== undefined ? { ...newData, preserved } : newData
       }
 
-      if (mode === 'prepend') {
-        existingData.versions.unshift(newData)
+      const current = versions.findIndex(entry => entry?.version === newData.version)
+      const unreleased = versions.findIndex(isUnreleasedEntry)
+
+      if (current !== -1) {
+        replace(current)
+      } else if (unreleased !== -1) {
+        replace(unreleased)
+        if (!isUnreleasedEntry(newData)) {
+          versions.splice(unreleased, 0, { version: UNRELEASED_VERSION, sections: [], commits: [] })
+        }
+      } else if (mode === 'prepend') {
+        versions.unshift(newData)
       } else {
-        existingData.versions.push(newData)
+        versions.push(newData)
       }
 
       const indent = this.config.formatOptions?.json?.indent || 2
-      return JSON.stringify(existingData, null, indent)
+      return JSON.stringify({ ...document, versions }, null, indent)
     } catch {
       return newContent
     }
@@ -544,8 +1193,13 @@ export class ChangelogGenerator {
   /**
    * 生成并写入 Changelog
    */
-  async generateAndWrite(version: string, from?: string, to = 'HEAD'): Promise<void> {
-    const content = await this.generate(version, from, to)
+  async generateAndWrite(
+    version: string,
+    from?: string,
+    to = 'HEAD',
+    options: GenerateOptions = {}
+  ): Promise<void> {
+    const content = await this.generate(version, from, to, options)
     await this.write(content)
   }
 }
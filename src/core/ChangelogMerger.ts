@@ -11,6 +11,8 @@ import type {
   BreakingChange,
   Contributor,
 } from '../types/changelog.js'
+import type { SectionRule } from '../types/config.js'
+import { createSectionClassifier } from './SectionClassifier.js'
 import { readFileContent } from '../utils/file.js'
 import { logger } from '../utils/logger.js'
 
@@ -40,6 +42,8 @@ export interface MergeOptions {
   preservePackagePrefix: boolean
   /** 输出格式 */
   outputFormat: 'markdown' | 'json'
+  /** 章节分类规则（第一条匹配的规则生效） */
+  sectionRules?: SectionRule[]
 }
 
 /**
@@ -417,7 +421,7 @@ export class ChangelogMerger {
     allCommits = this.sortByStrategy(allCommits, options.strategy)
 
     // 重新分组为 sections
-    const sections = this.groupCommitsIntoSections(allCommits)
+    const sections = this.groupCommitsIntoSections(allCommits, options.sectionRules)
 
     // 合并其他信息
     const breakingChanges = this.mergeBreakingChanges(contents)
@@ -512,41 +516,23 @@ export class ChangelogMerger {
   /**
    * 将提交分组为 sections
    */
-  private groupCommitsIntoSections(commits: ChangelogCommit[]): ChangelogSection[] {
-    const groups = new Map<string, ChangelogCommit[]>()
-
-    for (const commit of commits) {
-      const type = commit.type || 'other'
-      if (!groups.has(type)) {
-        groups.set(type, [])
-      }
-      groups.get(type)!.push(commit)
-    }
-
-    const sections: ChangelogSection[] = []
+  private groupCommitsIntoSections(commits: ChangelogCommit[], rules: SectionRule[] = []): ChangelogSection[] {
     const typeOrder = ['security', 'feat', 'fix', 'perf', 'refactor', 'docs', 'dependencies', 'other']
 
-    for (const type of typeOrder) {
-      if (groups.has(type)) {
-        sections.push({
-          title: this.getDefaultSectionTitle(type),
-          type,
-          commits: groups.get(type)!,
-        })
-        groups.delete(type)
-      }
-    }
-
-    // 添加剩余的类型
-    for (const [type, commits] of groups) {
-      sections.push({
-        title: this.getDefaultSectionTitle(type),
+    // 先按章节规则分类，其余按类型分组（已知类型按固定顺序，其余类型排在后面）
+    const classifier = createSectionClassifier({
+      rules,
+      types: typeOrder.map((type, index) => ({
         type,
-        commits,
-      })
-    }
-
-    return sections
+        section: this.getDefaultSectionTitle(type),
+        priority: index,
+      })),
+    })
+
+    return classifier.classify(
+      commits.map(commit => commit.type ? commit : { ...commit, type: 'other' }),
+      type => this.getDefaultSectionTitle(type)
+    )
   }
 
   /**
@@ -33,7 +33,7 @@ export interface ValidationResult {
  */
 export interface ValidationError {
   /** 错误类型 */
-  type: 'missing_version' | 'invalid_format' | 'missing_date' | 'duplicate_version' | 'invalid_version'
+  type: 'missing_version' | 'invalid_format' | 'missing_date' | 'duplicate_version' | 'invalid_version' | 'invalid_fragment'
 
   /** 错误消息 */
   message: string
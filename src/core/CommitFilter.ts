@@ -0,0 +1,111 @@
+/**
+ * 提交过滤器
+ *
+ * 按配置的排除规则过滤机器人提交、`[skip changelog]` 提交、带 `Changelog: skip` trailer 的提交，
+ * 以及只修改了指定路径（例如 `test/**`）的提交，并统计各原因排除的数量。
+ */
+
+import type { ChangelogCommit, ExclusionReason, ExclusionStats } from '../types/changelog.js'
+import type { ExcludeConfig } from '../types/config.js'
+import { matchesGlob } from '../utils/file.js'
+
+/**
+ * 过滤结果
+ */
+export interface CommitFilterResult {
+  /** 保留的提交 */
+  commits: ChangelogCommit[]
+
+  /** 排除统计 */
+  excluded: ExclusionStats
+}
+
+/**
+ * 转换为正则表达式（去掉 g/y 标志，避免 test() 之间保留 lastIndex）
+ */
+function toRegExp(pattern: string | RegExp): RegExp {
+  return typeof pattern === 'string' ? new RegExp(pattern) : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+}
+
+/**
+ * 提交过滤器
+ */
+export class CommitFilter {
+  private authors: RegExp[]
+  private messages: RegExp[]
+  private skipTrailer: boolean
+  private paths: string[]
+
+  constructor(config: ExcludeConfig = {}) {
+    this.authors = (config.authors || []).map(toRegExp)
+    this.messages = (config.messages || []).map(toRegExp)
+    this.skipTrailer = config.skipTrailer ?? true
+    this.paths = config.paths || []
+  }
+
+  /**
+   * 是否需要修改文件列表
+   */
+  needsFiles(): boolean {
+    return this.paths.length > 0
+  }
+
+  /**
+   * 获取提交被排除的原因，不排除时返回 undefined
+   */
+  getReason(commit: ChangelogCommit): ExclusionReason | undefined {
+    const identity = `${commit.author.name} <${commit.author.email}>`
+    if (this.authors.some(pattern => pattern.test(identity))) {
+      return 'author'
+    }
+
+    const message = commit.body ? `${commit.subject}\n\n${commit.body}` : commit.subject
+    if (this.messages.some(pattern => pattern.test(message))) {
+      return 'message'
+    }
+
+    const skipped = commit.trailers?.some(trailer =>
+      trailer.token.toLowerCase() === 'changelog' && trailer.value.trim().toLowerCase() === 'skip'
+    )
+    if (this.skipTrailer && skipped) {
+      return 'trailer'
+    }
+
+    const files = commit.files || []
+    if (this.paths.length > 0 && files.length > 0 && files.every(file => matchesGlob(file, this.paths))) {
+      return 'paths'
+    }
+
+    return undefined
+  }
+
+  /**
+   * 过滤提交
+   */
+  filter(commits: ChangelogCommit[]): CommitFilterResult {
+    const kept: ChangelogCommit[] = []
+    const excluded: ExclusionStats = {
+      total: 0,
+      byReason: { author: 0, message: 0, trailer: 0, paths: 0 },
+    }
+
+    for (const commit of commits) {
+      const reason = this.getReason(commit)
+      if (reason) {
+        excluded.total++
+        excluded.byReason[reason]++
+      } else {
+        kept.push(commit)
+      }
+    }
+
+    return { commits: kept, excluded }
+  }
+}
+
+/**
+ * 创建提交过滤器
+ */
+export function createCommitFilter(config?: ExcludeConfig): CommitFilter {
+  return new CommitFilter(config)
+}
@@ -3,7 +3,9 @@
  */
 
 import type { GitCommit } from '../types/changelog.js'
+import type { CommitPreset } from '../types/preset.js'
 import { getGitCommits } from '../utils/git-utils.js'
+import { resolvePreset } from './CommitPresets.js'
 
 /**
  * 提交验证结果
@@ -74,15 +76,19 @@ export interface CommitLintConfig {
 
   /** 自定义规则 */
   customRules?: Array<(commit: GitCommit) => CommitIssue | null>
+
+  /** 提交规范预设（默认 angular），未显式配置的规则取自预设 */
+  preset?: string | CommitPreset
 }
 
 /**
  * 提交消息验证器
  */
 export class CommitLinter {
-  private config: Required<Omit<CommitLintConfig, 'customRules'>> & {
+  private config: Required<Omit<CommitLintConfig, 'customRules' | 'preset'>> & {
     customRules?: CommitLintConfig['customRules']
   }
+  private preset: CommitPreset
 
   private issues: CommitIssue[] = []
   private stats = {
@@ -93,14 +99,14 @@ export class CommitLinter {
   }
 
   constructor(config: CommitLintConfig = {}) {
+    this.preset = resolvePreset(config.preset)
+    const rules = this.preset.lint || {}
+
     this.config = {
-      types: config.types || [
-        'feat', 'fix', 'docs', 'style', 'refactor',
-        'perf', 'test', 'build', 'ci', 'chore', 'revert',
-      ],
-      maxSubjectLength: config.maxSubjectLength || 72,
-      requireScope: config.requireScope || false,
-      allowUpperCase: config.allowUpperCase || false,
+      types: config.types || rules.types || this.preset.types.map(t => t.type),
+      maxSubjectLength: config.maxSubjectLength || rules.maxSubjectLength || 72,
+      requireScope: config.requireScope ?? rules.requireScope ?? false,
+      allowUpperCase: config.allowUpperCase ?? rules.allowUpperCase ?? false,
       customRules: config.customRules,
     }
   }
@@ -151,18 +157,17 @@ export class CommitLinter {
     const { subject, body } = commit
     let hasIssue = false
 
-    // 解析提交消息格式: type(scope): subject
-    const pattern = /^(\w+)(?:\(([^)]+)\))?:\s*(.+)$/
-    const match = subject.match(pattern)
+    // 按预设解析提交标题
+    const parsed = this.preset.parseHeader(subject)
 
-    if (!match) {
-      this.addIssue(commit, 'invalid_format', '提交消息格式不符合 Conventional Commits 规范', 'error', {
-        suggestion: 'type(scope): subject',
+    if (!parsed) {
+      this.addIssue(commit, 'invalid_format', `提交消息格式不符合 ${this.preset.name} 规范`, 'error', {
+        suggestion: this.preset.lint?.format || 'type(scope): subject',
       })
       return true
     }
 
-    const [, type, scope, subjectText] = match
+    const { type, scope, breaking: breakingMarker, subject: subjectText } = parsed
 
     // 验证 type
     if (!this.config.types.includes(type)) {
@@ -218,13 +223,14 @@ export class CommitLinter {
     }
 
     // 统计 body
-    if (body && body.trim().length > 0) {
+    const hasBody = !!body && body.trim().length > 0
+    if (hasBody) {
       this.stats.withBody++
+    }
 
-      // 检查 Breaking Changes
-      if (body.includes('BREAKING CHANGE:') || body.includes('BREAKING-CHANGE:')) {
-        this.stats.withBreakingChange++
-      }
+    // 检查 Breaking Changes（`!` 标记或 BREAKING CHANGE footer）
+    if (breakingMarker || (hasBody && (body!.includes('BREAKING CHANGE:') || body!.includes('BREAKING-CHANGE:')))) {
+      this.stats.withBreakingChange++
     }
 
     // 执行自定义规则
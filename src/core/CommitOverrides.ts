@@ -0,0 +1,209 @@
+/**
+ * 提交覆盖管理器
+ *
+ * 通过 git notes（默认 refs/notes/changelog）在不改写历史的前提下修正已推送提交的 Changelog 条目。
+ *
+ * note 格式为 `key: value` 行，不以 key 开头的行视为上一个值的延续：
+ *
+ * ```
+ * subject: 更清晰的描述
+ * type: fix
+ * scope: core
+ * breaking: true
+ * migration: 将 foo() 替换为 bar()
+ * hidden: false
+ * ```
+ */
+
+import type { CommitOverride } from '../types/changelog.js'
+import {
+  getGitNotes,
+  listGitNotes,
+  readGitNote,
+  writeGitNote,
+  removeGitNote,
+  resolveCommitHash,
+} from '../utils/git-utils.js'
+
+/**
+ * 默认 notes 引用
+ */
+export const DEFAULT_NOTES_REF = 'refs/notes/changelog'
+
+/**
+ * note 行正则表达式
+ */
+const OVERRIDE_LINE_REGEX = /^(subject|type|scope|breaking|migration|hidden):\s?(.*)$/i
+
+/**
+ * 解析布尔值
+ */
+function parseBoolean(value: string): boolean {
+  return /^(true|yes|1)$/i.test(value.trim())
+}
+
+/**
+ * 解析 note 内容为提交覆盖
+ */
+export function parseCommitOverride(note: string): CommitOverride {
+  const values = new Map<string, string>()
+  let lastKey: string | undefined
+
+  for (const line of note.split('\n')) {
+    const match = line.match(OVERRIDE_LINE_REGEX)
+    if (match) {
+      lastKey = match[1].toLowerCase()
+      values.set(lastKey, match[2])
+    } else if (lastKey) {
+      values.set(lastKey, `${values.get(lastKey)}\n${line}`)
+    }
+  }
+
+  const override: CommitOverride = {}
+  for (const [key, raw] of values) {
+    const value = raw.trim()
+    switch (key) {
+      case 'breaking':
+      case 'hidden':
+        override[key] = parseBoolean(value)
+        break
+      case 'scope':
+        override.scope = value
+        break
+      default:
+        if (value) {
+          override[key as 'subject' | 'type' | 'migration'] = value
+        }
+    }
+  }
+
+  return override
+}
+
+/**
+ * 将提交覆盖序列化为 note 内容
+ */
+export function formatCommitOverride(override: CommitOverride): string {
+  const lines: string[] = []
+  const keys: Array<keyof CommitOverride> = ['subject', 'type', 'scope', 'breaking', 'migration', 'hidden']
+
+  for (const key of keys) {
+    const value = override[key]
+    if (value === undefined) continue
+    lines.push(`${key}: ${value}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * 提交覆盖管理器配置
+ */
+export interface CommitOverrideManagerConfig {
+  /** 工作目录 */
+  cwd?: string
+
+  /** notes 引用 */
+  notesRef?: string
+}
+
+/**
+ * 提交覆盖条目
+ */
+export interface CommitOverrideEntry {
+  /** 提交 hash */
+  hash: string
+
+  /** 覆盖内容 */
+  override: CommitOverride
+}
+
+/**
+ * 提交覆盖管理器
+ */
+export class CommitOverrideManager {
+  private cwd?: string
+  private notesRef: string
+
+  constructor(config: CommitOverrideManagerConfig = {}) {
+    this.cwd = config.cwd
+    this.notesRef = config.notesRef || DEFAULT_NOTES_REF
+  }
+
+  /**
+   * 加载提交范围内的覆盖
+   */
+  async load(from?: string, to = 'HEAD'): Promise<Map<string, CommitOverride>> {
+    const notes = await getGitNotes(this.notesRef, from, to, this.cwd)
+    const overrides = new Map<string, CommitOverride>()
+
+    for (const [hash, note] of notes) {
+      overrides.set(hash, parseCommitOverride(note))
+    }
+
+    return overrides
+  }
+
+  /**
+   * 列出所有覆盖
+   */
+  async list(): Promise<CommitOverrideEntry[]> {
+    const entries: CommitOverrideEntry[] = []
+
+    for (const hash of await listGitNotes(this.notesRef, this.cwd)) {
+      const note = await readGitNote(this.notesRef, hash, this.cwd)
+      if (note) {
+        entries.push({ hash, override: parseCommitOverride(note) })
+      }
+    }
+
+    return entries
+  }
+
+  /**
+   * 获取提交的覆盖
+   */
+  async get(commit: string): Promise<CommitOverride | null> {
+    const note = await readGitNote(this.notesRef, commit, this.cwd)
+    return note ? parseCommitOverride(note) : null
+  }
+
+  /**
+   * 设置提交的覆盖（与已有覆盖合并）
+   */
+  async set(commit: string, override: CommitOverride): Promise<CommitOverrideEntry> {
+    const hash = await resolveCommitHash(commit, this.cwd)
+    const merged = { ...(await this.get(hash)), ...override }
+
+    await writeGitNote(this.notesRef, hash, formatCommitOverride(merged), this.cwd)
+
+    return { hash, override: merged }
+  }
+
+  /**
+   * 移除提交的覆盖
+   */
+  async remove(commit: string): Promise<boolean> {
+    const hash = await resolveCommitHash(commit, this.cwd)
+    if (!(await readGitNote(this.notesRef, hash, this.cwd))) {
+      return false
+    }
+
+    await removeGitNote(this.notesRef, hash, this.cwd)
+    return true
+  }
+
+  /**
+   * 获取 notes 引用
+   */
+  getNotesRef(): string {
+    return this.notesRef
+  }
+}
+
+/**
+ * 创建提交覆盖管理器
+ */
+export function createCommitOverrideManager(config?: CommitOverrideManagerConfig): CommitOverrideManager {
+  return new CommitOverrideManager(config)
+}
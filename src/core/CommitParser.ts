@@ -2,8 +2,11 @@
  * Commit 解析器
  */
 
-import type { GitCommit, ChangelogCommit, RepositoryInfo } from '../types/index.js'
-import { generatePRLink, generateIssueLink, generateCommitLink } from '../utils/git-utils.js'
+import type { GitCommit, ChangelogCommit, CommitIdentity, CommitOverride, CommitTrailer, RevertInfo, RepositoryInfo, CommitPreset, ParsedCommitHeader, IssueReferencePattern } from '../types/index.js'
+import { generatePRLink, generateIssueLink, generateCommitLink, CO_AUTHOR_REGEX } from '../utils/git-utils.js'
+import { compileIssuePatterns, extractIssueReferences } from '../utils/issue-references.js'
+import type { CompiledIssuePattern } from '../utils/issue-references.js'
+import { resolvePreset } from './CommitPresets.js'
 
 /**
  * 提交消息模板配置
@@ -124,18 +127,53 @@ export interface CommitParserConfig {
 
   /** 是否提供修复建议 */
   provideSuggestions?: boolean
+
+  /** 提交规范预设（默认 angular） */
+  preset?: string | CommitPreset
+
+  /** 是否将 squash 合并提交（标题以 PR 引用结尾）正文中的提交列表展开为独立条目 */
+  expandSquashCommits?: boolean
+
+  /** 提交覆盖（按完整 hash 索引，来自 git notes） */
+  overrides?: Map<string, CommitOverride>
+
+  /** 自定义 Issue 引用规则 */
+  issuePatterns?: IssueReferencePattern[]
 }
 
 /**
- * Conventional Commits 正则表达式
- * 格式: type(scope): subject
+ * Footer token 正则表达式
+ * 格式: `Token: value` 或 `Token #value`，token 中的空格需用 `-` 代替（BREAKING CHANGE 除外）
+ */
+const TRAILER_REGEX = /^(BREAKING CHANGE|[A-Za-z][\w-]*)(?:: | #)(.*)$/
+
+/**
+ * git revert 生成的标题
+ * 格式: Revert "type(scope): subject"
  */
-const COMMIT_REGEX = /^(\w+)(?:\(([^)]+)\))?: (.+)$/
+const REVERT_REGEX = /^Revert "(.+)"$/
 
 /**
- * PR 引用正则表达式
+ * git revert 生成的正文
+ * 格式: This reverts commit <sha>.
  */
-const PR_REGEX = /#(\d+)/g
+const REVERT_HASH_REGEX = /This reverts commit ([0-9a-f]{7,40})/i
+
+/**
+ * Squash 合并正文中的提交列表项
+ * 格式: `* type(scope): subject` 或 `- type(scope): subject`
+ */
+const SQUASH_BULLET_REGEX = /^[*-] (.+)$/
+
+/**
+ * Squash 合并提交标题（以 PR 引用结尾，如 "Dashboard improvements (#42)"）
+ */
+const SQUASH_SUBJECT_REGEX = /\(#\d+\)\s*$/
+
+/**
+ * PR 引用正则表达式（排除 org/repo#12 形式的跨仓库引用）
+ */
+const PR_REGEX = /(?<![\w/.-])#(\d+)/g
 
 /**
  * Issue 引用正则表达式
@@ -147,11 +185,76 @@ const ISSUE_REGEX = /(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s+#(\d+)/gi
  */
 const BREAKING_MARKERS = ['BREAKING CHANGE:', 'BREAKING CHANGES:', 'BREAKING:']
 
+/**
+ * 表示 Breaking Change 的 trailer token
+ */
+const BREAKING_TOKENS = ['BREAKING CHANGE', 'BREAKING-CHANGE']
+
+/**
+ * 表示 Issue 引用的 trailer token
+ */
+const REFERENCE_TOKENS = ['refs', 'references', 'closes', 'fixes', 'resolves']
+
+/**
+ * 解析提交正文中的 footer（git trailers）
+ *
+ * footer 块为正文末尾的若干段落，每段均以 `Token: value` 或 `Token #value` 开头；
+ * 不以 token 开头的行视为上一个 trailer 值的延续。
+ */
+export function parseTrailers(body?: string): CommitTrailer[] {
+  if (!body) return []
+
+  const paragraphs = body.trim().split(/\n\s*\n/)
+
+  // 从末尾向前查找 footer 块的起始段落
+  let footerStart = paragraphs.length
+  for (let i = paragraphs.length - 1; i >= 0; i--) {
+    const firstLine = paragraphs[i].split('\n')[0].trim()
+    if (!TRAILER_REGEX.test(firstLine)) break
+    footerStart = i
+  }
+
+  if (footerStart === paragraphs.length) return []
+
+  const trailers: CommitTrailer[] = []
+  const footer = paragraphs.slice(footerStart).join('\n\n')
+
+  for (const line of footer.split('\n')) {
+    const match = line.trim().match(TRAILER_REGEX)
+    if (match) {
+      trailers.push({ token: match[1], value: match[2].trim() })
+    } else if (trailers.length > 0) {
+      const last = trailers[trailers.length - 1]
+      last.value = `${last.value}\n${line.trim()}`
+    }
+  }
+
+  return trailers.map(trailer => ({ ...trailer, value: trailer.value.trim() }))
+}
+
+/**
+ * 获取指定 token 的所有 trailer 值（token 不区分大小写）
+ */
+export function getTrailerValues(trailers: CommitTrailer[] | undefined, token: string): string[] {
+  if (!trailers) return []
+  const normalized = token.toLowerCase()
+  return trailers
+    .filter(trailer => trailer.token.toLowerCase() === normalized)
+    .map(trailer => trailer.value)
+}
+
+/**
+ * 获取提交的唯一标识（squash 展开条目附加序号，其余为 hash）
+ */
+export function getCommitKey(commit: ChangelogCommit): string {
+  return commit.squashIndex === undefined ? commit.hash : `${commit.hash}#${commit.squashIndex}`
+}
+
 /**
  * Commit 解析器
  */
 export class CommitParser {
-  private config: Required<Omit<CommitParserConfig, 'repositoryInfo' | 'scopeFilter' | 'markDependencies' | 'markSecurity' | 'template' | 'enableValidation' | 'provideSuggestions'>> & {
+  private config: Required<Omit<CommitParserConfig, 'repositoryInfo' | 'scopeFilter' | 'markDependencies' | 'markSecurity' | 'template' | 'enableValidation' | 'provideSuggestions' | 'preset' | 'overrides' | 'issuePatterns'>> & {
     repositoryInfo?: RepositoryInfo
     scopeFilter?: string[]
     markDependencies?: boolean
@@ -159,7 +262,12 @@ export class CommitParser {
     template?: CommitTemplate
     enableValidation?: boolean
     provideSuggestions?: boolean
+    preset?: string | CommitPreset
+    overrides?: Map<string, CommitOverride>
+    issuePatterns?: IssueReferencePattern[]
   }
+  private preset: CommitPreset
+  private issuePatterns: CompiledIssuePattern[]
 
   constructor(config: CommitParserConfig = {}) {
     this.config = {
@@ -172,8 +280,11 @@ export class CommitParser {
       template: undefined,
       enableValidation: false,
       provideSuggestions: false,
+      expandSquashCommits: false,
       ...config,
     }
+    this.preset = resolvePreset(this.config.preset)
+    this.issuePatterns = compileIssuePatterns(this.config.issuePatterns)
   }
 
   /**
@@ -183,6 +294,14 @@ export class CommitParser {
     const parsed: ChangelogCommit[] = []
 
     for (const commit of commits) {
+      if (this.config.expandSquashCommits) {
+        const expanded = this.expandSquashCommit(commit)
+        if (expanded) {
+          parsed.push(...expanded)
+          continue
+        }
+      }
+
       const changelogCommit = this.parseCommit(commit)
 
       if (changelogCommit) {
@@ -197,21 +316,39 @@ export class CommitParser {
    * 解析单个提交
    */
   parseCommit(commit: GitCommit): ChangelogCommit | null {
-    const match = commit.subject.match(COMMIT_REGEX)
+    const override = this.config.overrides?.get(commit.hash)
+    if (override?.hidden) {
+      return null
+    }
+
+    const revertMatch = commit.subject.match(REVERT_REGEX)
+    const match = revertMatch ? null : this.preset.parseHeader(commit.subject)
 
-    // 如果不匹配 Conventional Commits 格式且不包含所有提交，则跳过
-    if (!match && !this.config.includeAllCommits) {
+    // 如果不匹配 Conventional Commits 格式且不包含所有提交，则跳过（覆盖中指定了类型的除外）
+    if (!match && !revertMatch && !override?.type && !this.config.includeAllCommits) {
       return null
     }
 
     let type = 'other'
     let scope: string | undefined
     let subject = commit.subject
+    let breakingMarker = false
+
+    if (revertMatch) {
+      type = 'revert'
+      subject = revertMatch[1]
+    } else if (match) {
+      type = match.type
+      scope = match.scope
+      subject = match.subject
+      breakingMarker = !!match.breaking
+    }
 
-    if (match) {
-      type = match[1]
-      scope = match[2]
-      subject = match[3]
+    // 应用覆盖
+    if (override) {
+      type = override.type ?? type
+      scope = override.scope !== undefined ? override.scope || undefined : scope
+      subject = override.subject ?? subject
     }
 
     // 检查是否为隐藏类型
@@ -227,22 +364,38 @@ export class CommitParser {
     }
 
     // 提取 PR 编号
-    const pr = this.extractPR(subject)
+    const pr = this.extractPR(commit.subject)
+
+    // 解析 footer
+    const trailers = parseTrailers(commit.body)
 
-    // 提取 Issues
-    const issues = this.extractIssues(commit.body || '')
+    // 提取 Issues（#123 引用与自定义规则匹配的引用）
+    const issues = this.extractIssues(commit.body || '', trailers)
+    const references = extractIssueReferences(
+      `${commit.subject}\n${commit.body || ''}`,
+      this.issuePatterns,
+      this.config.repositoryInfo
+    ).filter(reference => !issues.includes(reference.ref))
 
     // 检查 breaking change
-    const breaking = this.isBreakingChange(commit.body || '')
-    const breakingDescription = breaking ? this.extractBreakingDescription(commit.body || '') : undefined
+    const breaking = override?.breaking ?? (breakingMarker || this.isBreakingChange(commit.body || '', trailers))
+    const breakingDescription = breaking ? this.extractBreakingDescription(commit.body || '', trailers) : undefined
 
     // 生成链接
     const prLink = pr && this.config.repositoryInfo ? generatePRLink(pr, this.config.repositoryInfo) : undefined
-    const issueLinks = issues.length > 0 && this.config.repositoryInfo
-      ? issues.map(issue => generateIssueLink(issue, this.config.repositoryInfo!))
-      : undefined
+    const issueLinks = [
+      ...issues.map(issue => this.config.repositoryInfo ? generateIssueLink(issue, this.config.repositoryInfo) : ''),
+      ...references.map(reference => reference.link || ''),
+    ]
+    issues.push(...references.map(reference => reference.ref))
     const commitLink = this.config.repositoryInfo ? generateCommitLink(commit.hash, this.config.repositoryInfo) : undefined
 
+    // 共同作者（优先使用 getGitCommits 已按 .mailmap 解析的身份）
+    const coAuthors = this.extractCoAuthors(commit, trailers)
+
+    // 回滚信息
+    const revert = type === 'revert' ? this.extractRevert(subject, commit.body) : undefined
+
     // 检测是否为依赖更新
     const isDependency = this.config.markDependencies ? this.isDependencyUpdate(scope, subject) : undefined
 
@@ -260,19 +413,99 @@ export class CommitParser {
         name: commit.authorName,
         email: commit.authorEmail,
       },
+      coAuthors: coAuthors.length > 0 ? coAuthors : undefined,
       pr,
       prLink,
       issues: issues.length > 0 ? issues : undefined,
-      issueLinks,
+      issueLinks: issueLinks.some(Boolean) ? issueLinks : undefined,
       breaking,
       breakingDescription,
+      migration: override?.migration,
+      trailers: trailers.length > 0 ? trailers : undefined,
+      revert,
       date: commit.date,
       commitLink,
       isDependency,
       isSecurity,
+      files: commit.files,
     }
   }
 
+  /**
+   * 展开 squash 合并提交
+   *
+   * 正文中的每个提交列表项解析为独立条目，并继承 squash 提交的 PR、作者和日期。
+   * 列表项之后的非列表行作为该条目的正文，squash 提交自身的 trailer（如 Co-authored-by）不计入。
+   * 仅展开标题带 PR 引用的 squash 合并提交；展开条目通过 squashOf/squashIndex 区分，hash 仍指向 squash 提交。
+   * 非 squash 合并提交或没有可解析的列表项时返回 null，按普通提交处理。
+   */
+  expandSquashCommit(commit: GitCommit): ChangelogCommit[] | null {
+    if (!commit.body || !SQUASH_SUBJECT_REGEX.test(commit.subject)) return null
+
+    const entries: Array<{ header: string; body: string[] }> = []
+    let current: { header: string; body: string[] } | null = null
+
+    for (const line of commit.body.split('\n')) {
+      const bullet = line.match(SQUASH_BULLET_REGEX)
+      if (bullet && this.preset.parseHeader(bullet[1].trim())) {
+        current = { header: bullet[1].trim(), body: [] }
+        entries.push(current)
+        continue
+      }
+
+      const trailer = line.trim().match(TRAILER_REGEX)
+      if (trailer && !BREAKING_TOKENS.includes(trailer[1])) {
+        current = null
+        continue
+      }
+
+      current?.body.push(line.replace(/^\s{2}/, ''))
+    }
+
+    if (entries.length === 0) return null
+
+    const pr = this.extractPR(commit.subject)
+    const prLink = pr && this.config.repositoryInfo ? generatePRLink(pr, this.config.repositoryInfo) : undefined
+    const expanded: ChangelogCommit[] = []
+
+    entries.forEach((entry, index) => {
+      const parsed = this.parseCommit({
+        ...commit,
+        subject: entry.header,
+        body: entry.body.join('\n').trim(),
+      })
+      if (!parsed) return
+
+      expanded.push({
+        ...parsed,
+        pr: parsed.pr ?? pr,
+        prLink: parsed.pr ? parsed.prLink : prLink,
+        squashOf: commit.hash,
+        squashIndex: index,
+      })
+    })
+
+    return expanded.length > 0 ? expanded : null
+  }
+
+  /**
+   * 提取共同作者（排除提交作者本人，按邮箱去重）
+   */
+  private extractCoAuthors(commit: GitCommit, trailers: CommitTrailer[]): CommitIdentity[] {
+    const identities = commit.coAuthors ?? getTrailerValues(trailers, 'Co-authored-by')
+      .map(value => value.match(CO_AUTHOR_REGEX))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map(match => ({ name: match[1], email: match[2] }))
+
+    const seen = new Set([commit.authorEmail.toLowerCase()])
+    return identities.filter(identity => {
+      const key = identity.email.toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
   /**
    * 提取 PR 编号
    */
@@ -288,7 +521,7 @@ export class CommitParser {
   /**
    * 提取 Issues
    */
-  private extractIssues(text: string): string[] {
+  private extractIssues(text: string, trailers: CommitTrailer[] = []): string[] {
     const issues: string[] = []
     let match: RegExpExecArray | null
 
@@ -299,20 +532,38 @@ export class CommitParser {
       issues.push(match[1])
     }
 
-    return issues
+    // Refs / Closes 等 trailer 中的引用
+    for (const trailer of trailers) {
+      if (!REFERENCE_TOKENS.includes(trailer.token.toLowerCase())) continue
+      if (/^\d+$/.test(trailer.value)) {
+        issues.push(trailer.value)
+        continue
+      }
+      for (const ref of trailer.value.matchAll(PR_REGEX)) {
+        issues.push(ref[1])
+      }
+    }
+
+    return Array.from(new Set(issues))
   }
 
   /**
    * 判断是否为 Breaking Change
    */
-  private isBreakingChange(body: string): boolean {
-    return BREAKING_MARKERS.some(marker => body.includes(marker))
+  private isBreakingChange(body: string, trailers: CommitTrailer[] = []): boolean {
+    return trailers.some(trailer => BREAKING_TOKENS.includes(trailer.token))
+      || BREAKING_MARKERS.some(marker => body.includes(marker))
   }
 
   /**
    * 提取 Breaking Change 描述
    */
-  private extractBreakingDescription(body: string): string | undefined {
+  private extractBreakingDescription(body: string, trailers: CommitTrailer[] = []): string | undefined {
+    const trailer = trailers.find(t => BREAKING_TOKENS.includes(t.token))
+    if (trailer) {
+      return trailer.value
+    }
+
     for (const marker of BREAKING_MARKERS) {
       const index = body.indexOf(marker)
       if (index !== -1) {
@@ -325,6 +576,21 @@ export class CommitParser {
     return undefined
   }
 
+  /**
+   * 提取回滚信息
+   */
+  private extractRevert(header: string, body?: string): RevertInfo | undefined {
+    const match = body?.match(REVERT_HASH_REGEX)
+    if (!match) return undefined
+
+    const hash = match[1]
+    return {
+      hash,
+      header,
+      link: this.config.repositoryInfo ? generateCommitLink(hash, this.config.repositoryInfo) : undefined,
+    }
+  }
+
   /**
    * 判断是否为依赖更新
    */
@@ -375,6 +641,19 @@ export class CommitParser {
    */
   setConfig(config: Partial<CommitParserConfig>): void {
     this.config = { ...this.config, ...config }
+    if (config.preset) {
+      this.preset = resolvePreset(config.preset)
+    }
+    if (config.issuePatterns) {
+      this.issuePatterns = compileIssuePatterns(config.issuePatterns)
+    }
+  }
+
+  /**
+   * 获取当前使用的预设
+   */
+  getPreset(): CommitPreset {
+    return this.preset
   }
 
   /**
@@ -385,30 +664,30 @@ export class CommitParser {
     const warnings: string[] = []
     const suggestions: string[] = []
 
-    // 使用自定义模板或默认正则
-    const pattern = this.config.template?.pattern || COMMIT_REGEX
-    const match = commitMessage.match(pattern)
+    // 使用自定义模板或预设解析
+    const parsed = this.parseHeaderForValidation(commitMessage)
+    const format = this.preset.lint?.format || 'type(scope): subject'
 
     // 格式验证
-    if (!match) {
+    if (!parsed) {
       errors.push({
         type: 'format',
         message: 'Commit message does not match the required format',
-        expected: 'type(scope): subject',
+        expected: format,
         actual: commitMessage,
       })
 
       if (this.config.provideSuggestions) {
-        suggestions.push('Use format: type(scope): subject')
-        suggestions.push('Example: feat(auth): add user login')
+        suggestions.push(`Use format: ${format}`)
+        if (this.preset.lint?.example) {
+          suggestions.push(`Example: ${this.preset.lint.example}`)
+        }
       }
 
       return { valid: false, errors, warnings, suggestions }
     }
 
-    const type = match[1]
-    const scope = match[2]
-    const subject = match[3]
+    const { type, scope, subject } = parsed
 
     // 类型验证
     if (this.config.template?.allowedTypes && !this.config.template.allowedTypes.includes(type)) {
@@ -493,6 +772,24 @@ export class CommitParser {
     }
   }
 
+  /**
+   * 解析待验证的提交标题（自定义模板优先）
+   */
+  private parseHeaderForValidation(commitMessage: string): ParsedCommitHeader | null {
+    if (!this.config.template) {
+      return this.preset.parseHeader(commitMessage)
+    }
+
+    const match = commitMessage.match(this.config.template.pattern)
+    if (!match) return null
+
+    return {
+      type: match.groups?.type ?? match[1],
+      scope: match.groups?.scope ?? match[2],
+      subject: match.groups?.subject ?? match[3],
+    }
+  }
+
   /**
    * 查找最接近的匹配（用于建议）
    */
@@ -561,8 +858,8 @@ export class CommitParser {
       for (const error of validation.errors) {
         switch (error.type) {
           case 'format':
-            suggestions.push('Fix format: Use "type(scope): subject" pattern')
-            suggestions.push('Common types: feat, fix, docs, style, refactor, test, chore')
+            suggestions.push(`Fix format: Use "${this.preset.lint?.format || 'type(scope): subject'}" pattern`)
+            suggestions.push(`Common types: ${(this.preset.lint?.types || this.preset.types.map(t => t.type)).join(', ')}`)
             break
           case 'type':
             if (error.expected) {
@@ -0,0 +1,333 @@
+/**
+ * 提交规范预设
+ *
+ * 预设负责解析提交标题、提供类型到章节的映射以及 Lint 规则，
+ * CommitParser、CommitLinter 与 ChangelogGenerator 均由所选预设驱动。
+ */
+
+import type { CommitTypeConfig } from '../types/config.js'
+import { DEFAULT_CONFIG } from '../types/config.js'
+import type { CommitPreset, ParsedCommitHeader } from '../types/preset.js'
+
+/**
+ * Conventional Commits 正则表达式
+ * 格式: type(scope)!: subject
+ */
+export const CONVENTIONAL_COMMIT_REGEX = /^(?<type>\w+)(?:\((?<scope>[^)]+)\))?(?<breaking>!)?: (?<subject>.+)$/
+
+/**
+ * Emoji 标题正则表达式
+ * 格式: :code: (scope): subject 或 ✨ (scope): subject
+ */
+const EMOJI_HEADER_REGEX = /^(?::(?<code>[\w+-]+):|(?<emoji>\p{Extended_Pictographic}\uFE0F?))\s*(?:\((?<scope>[^)]+)\):?\s*)?(?<subject>.+)$/u
+
+/**
+ * ESLint 规范正则表达式
+ * 格式: Tag: subject
+ */
+const ESLINT_HEADER_REGEX = /^(?<tag>Fix|Update|New|Breaking|Docs|Build|Upgrade|Chore): (?<subject>.+)$/
+
+/**
+ * jQuery 规范正则表达式
+ * 格式: Component: subject
+ */
+const JQUERY_HEADER_REGEX = /^(?<component>[\w.\-/ ]+): (?<subject>.+)$/
+
+/**
+ * Emoji 映射项：[shortcode, unicode, 类型, 是否为破坏性变更]
+ */
+type EmojiMapping = [string, string, string, boolean?]
+
+/**
+ * Gitmoji 映射
+ * @see https://gitmoji.dev
+ */
+const GITMOJI_MAPPINGS: EmojiMapping[] = [
+  ['sparkles', '✨', 'feat'],
+  ['tada', '🎉', 'feat'],
+  ['boom', '💥', 'feat', true],
+  ['bug', '🐛', 'fix'],
+  ['ambulance', '🚑', 'fix'],
+  ['adhesive_bandage', '🩹', 'fix'],
+  ['lock', '🔒', 'fix'],
+  ['zap', '⚡', 'perf'],
+  ['recycle', '♻', 'refactor'],
+  ['fire', '🔥', 'refactor'],
+  ['truck', '🚚', 'refactor'],
+  ['memo', '📝', 'docs'],
+  ['bulb', '💡', 'docs'],
+  ['art', '🎨', 'style'],
+  ['lipstick', '💄', 'style'],
+  ['white_check_mark', '✅', 'test'],
+  ['test_tube', '🧪', 'test'],
+  ['construction_worker', '👷', 'ci'],
+  ['green_heart', '💚', 'ci'],
+  ['package', '📦', 'build'],
+  ['heavy_plus_sign', '➕', 'build'],
+  ['heavy_minus_sign', '➖', 'build'],
+  ['arrow_up', '⬆', 'build'],
+  ['arrow_down', '⬇', 'build'],
+  ['pushpin', '📌', 'build'],
+  ['wrench', '🔧', 'chore'],
+  ['hammer', '🔨', 'chore'],
+  ['bookmark', '🔖', 'chore'],
+  ['rewind', '⏪', 'revert'],
+]
+
+/**
+ * Atom 规范映射
+ * @see https://github.com/atom/atom/blob/master/CONTRIBUTING.md#git-commit-messages
+ */
+const ATOM_MAPPINGS: EmojiMapping[] = [
+  ['sparkles', '✨', 'feat'],
+  ['tada', '🎉', 'feat'],
+  ['bug', '🐛', 'fix'],
+  ['penguin', '🐧', 'fix'],
+  ['apple', '🍎', 'fix'],
+  ['checkered_flag', '🏁', 'fix'],
+  ['lock', '🔒', 'fix'],
+  ['racehorse', '🐎', 'perf'],
+  ['non-potable_water', '🚱', 'perf'],
+  ['fire', '🔥', 'refactor'],
+  ['memo', '📝', 'docs'],
+  ['art', '🎨', 'style'],
+  ['shirt', '👕', 'style'],
+  ['white_check_mark', '✅', 'test'],
+  ['green_heart', '💚', 'ci'],
+  ['arrow_up', '⬆', 'build'],
+  ['arrow_down', '⬇', 'build'],
+]
+
+/**
+ * ESLint 标签映射
+ * @see https://eslint.org/docs/latest/contribute/pull-requests#commit-messages
+ */
+const ESLINT_TAGS: Record<string, { type: string; breaking?: boolean }> = {
+  New: { type: 'feat' },
+  Update: { type: 'feat' },
+  Breaking: { type: 'feat', breaking: true },
+  Fix: { type: 'fix' },
+  Docs: { type: 'docs' },
+  Build: { type: 'build' },
+  Upgrade: { type: 'build' },
+  Chore: { type: 'chore' },
+}
+
+/**
+ * jQuery 主题动词到类型的映射
+ */
+const JQUERY_VERBS: Array<[RegExp, string]> = [
+  [/^fix(es|ed)?\b/i, 'fix'],
+  [/^(add|adds|added|implement|introduce|support)\b/i, 'feat'],
+  [/^(doc|docs|document)\b/i, 'docs'],
+]
+
+/**
+ * 按类型标识挑选默认类型配置
+ */
+function pickTypes(types: string[]): CommitTypeConfig[] {
+  return DEFAULT_CONFIG.types.filter(t => types.includes(t.type))
+}
+
+/**
+ * 创建基于 emoji 的预设
+ */
+function createEmojiPreset(
+  name: string,
+  description: string,
+  mappings: EmojiMapping[],
+  allowUnicode: boolean
+): CommitPreset {
+  const byCode = new Map(mappings.map(m => [m[0], m]))
+  const byEmoji = new Map(mappings.map(m => [m[1], m]))
+  const types = Array.from(new Set(mappings.map(m => m[2])))
+
+  return {
+    name,
+    description,
+    parseHeader(header: string): ParsedCommitHeader | null {
+      const match = header.match(EMOJI_HEADER_REGEX)
+      if (!match?.groups) return null
+
+      const { code, emoji, scope, subject } = match.groups
+      if (emoji && !allowUnicode) return null
+
+      const mapping = code ? byCode.get(code) : byEmoji.get(emoji.replace(/\uFE0F/g, ''))
+      if (!mapping) return null
+
+      return {
+        type: mapping[2],
+        scope,
+        subject: subject.trim(),
+        breaking: mapping[3] || undefined,
+      }
+    },
+    types: pickTypes(types),
+    lint: {
+      types,
+      allowUpperCase: true,
+      format: allowUnicode ? ':emoji: subject' : ':code: subject',
+      example: ':sparkles: add user login',
+    },
+  }
+}
+
+/**
+ * Angular / Conventional Commits 预设
+ */
+export const angularPreset: CommitPreset = {
+  name: 'angular',
+  description: 'Angular / Conventional Commits 规范: type(scope): subject',
+  parseHeader(header: string): ParsedCommitHeader | null {
+    const match = header.match(CONVENTIONAL_COMMIT_REGEX)
+    if (!match?.groups) return null
+
+    return {
+      type: match.groups.type,
+      scope: match.groups.scope,
+      subject: match.groups.subject,
+      breaking: !!match.groups.breaking || undefined,
+    }
+  },
+  types: DEFAULT_CONFIG.types,
+  lint: {
+    types: ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'],
+    format: 'type(scope): subject',
+    example: 'feat(auth): add user login',
+  },
+}
+
+/**
+ * Gitmoji 预设
+ */
+export const gitmojiPreset = createEmojiPreset(
+  'gitmoji',
+  'Gitmoji 规范: :sparkles: subject 或 ✨ subject',
+  GITMOJI_MAPPINGS,
+  true
+)
+
+/**
+ * Atom 预设
+ */
+export const atomPreset = createEmojiPreset(
+  'atom',
+  'Atom 规范: :bug: subject',
+  ATOM_MAPPINGS,
+  false
+)
+
+/**
+ * ESLint 预设
+ */
+export const eslintPreset: CommitPreset = {
+  name: 'eslint',
+  description: 'ESLint 规范: Tag: subject',
+  parseHeader(header: string): ParsedCommitHeader | null {
+    const match = header.match(ESLINT_HEADER_REGEX)
+    if (!match?.groups) return null
+
+    const tag = ESLINT_TAGS[match.groups.tag]
+    return {
+      type: tag.type,
+      subject: match.groups.subject,
+      breaking: tag.breaking,
+    }
+  },
+  types: pickTypes(['feat', 'fix', 'docs', 'build', 'chore']),
+  lint: {
+    types: ['feat', 'fix', 'docs', 'build', 'chore'],
+    allowUpperCase: true,
+    format: 'Tag: subject',
+    example: 'Fix: handle empty config (fixes #123)',
+  },
+}
+
+/**
+ * jQuery 预设
+ */
+export const jqueryPreset: CommitPreset = {
+  name: 'jquery',
+  description: 'jQuery 规范: Component: subject',
+  parseHeader(header: string): ParsedCommitHeader | null {
+    const match = header.match(JQUERY_HEADER_REGEX)
+    if (!match?.groups) return null
+
+    const subject = match.groups.subject
+    const verb = JQUERY_VERBS.find(([pattern]) => pattern.test(subject))
+
+    return {
+      type: verb ? verb[1] : 'chore',
+      scope: match.groups.component.trim(),
+      subject,
+    }
+  },
+  types: pickTypes(['feat', 'fix', 'docs', 'chore']),
+  lint: {
+    types: ['feat', 'fix', 'docs', 'chore'],
+    allowUpperCase: true,
+    format: 'Component: subject',
+    example: 'Core: Fix memory leak in data cache',
+  },
+}
+
+/**
+ * 预设注册表
+ */
+const presetRegistry = new Map<string, CommitPreset>([
+  ['angular', angularPreset],
+  ['conventional', angularPreset],
+  ['gitmoji', gitmojiPreset],
+  ['atom', atomPreset],
+  ['eslint', eslintPreset],
+  ['jquery', jqueryPreset],
+])
+
+/**
+ * 注册自定义预设（同名预设会被覆盖）
+ */
+export function registerPreset(preset: CommitPreset): void {
+  presetRegistry.set(preset.name, preset)
+}
+
+/**
+ * 获取预设
+ */
+export function getPreset(name: string): CommitPreset | undefined {
+  return presetRegistry.get(name)
+}
+
+/**
+ * 获取所有已注册的预设名称
+ */
+export function getPresetNames(): string[] {
+  return Array.from(presetRegistry.keys())
+}
+
+/**
+ * 解析预设配置
+ */
+export function resolvePreset(preset: string | CommitPreset = 'angular'): CommitPreset {
+  if (typeof preset !== 'string') {
+    return preset
+  }
+
+  const resolved = presetRegistry.get(preset)
+  if (!resolved) {
+    throw new Error(`未知的提交规范预设: ${preset}（可用: ${getPresetNames().join(', ')}）`)
+  }
+  return resolved
+}
+
+/**
+ * 解析类型配置
+ *
+ * 用户显式配置了 types 时使用用户配置，否则使用预设的类型映射。
+ * 与 DEFAULT_CONFIG.types 为同一引用时视为未配置（配置加载器会合并默认配置）。
+ */
+export function resolvePresetTypes(preset: CommitPreset, types?: CommitTypeConfig[]): CommitTypeConfig[] {
+  if (!types || types === DEFAULT_CONFIG.types) {
+    return preset.types
+  }
+  return types
+}
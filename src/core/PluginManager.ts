@@ -2,6 +2,7 @@
  * 插件系统
  */
 
+import type { Command } from 'commander'
 import type { GitCommit, ChangelogCommit, ChangelogContent } from '../types/changelog.js'
 import { logger } from '../utils/logger.js'
 
@@ -27,13 +28,24 @@ export interface PluginHooks {
   /** 格式化后钩子 */
   afterFormat?: (formatted: string, content: ChangelogContent) => Promise<string> | string
 
-  /** 写入前钩子 */
+  /** 写入前钩子（接收与已有文件合并后的完整内容） */
   beforeWrite?: (formatted: string, path: string) => Promise<string> | string
 
   /** 写入后钩子 */
   afterWrite?: (path: string) => Promise<void> | void
 }
 
+/**
+ * 插件格式化器
+ */
+export interface PluginFormatter {
+  /** 格式化单个版本 */
+  format: (content: ChangelogContent) => string
+
+  /** 格式化完整历史（未提供时逐个版本格式化后拼接） */
+  formatComplete?: (contents: ChangelogContent[]) => string
+}
+
 /**
  * 插件接口
  */
@@ -50,6 +62,12 @@ export interface Plugin {
   /** 钩子实现 */
   hooks: PluginHooks
 
+  /** 注册 CLI 子命令 */
+  commands?: (program: Command, context: PluginContext) => Promise<void> | void
+
+  /** 命名格式化器，可通过 format 配置或 --format 选项使用 */
+  formatters?: Record<string, PluginFormatter>
+
   /** 初始化插件 */
   init?: () => Promise<void> | void
 
@@ -57,6 +75,14 @@ export interface Plugin {
   destroy?: () => Promise<void> | void
 }
 
+/**
+ * 插件工厂（插件模块可以默认导出工厂函数以接收配置中的选项）
+ */
+export type PluginFactory = (
+  options: Record<string, any>,
+  context: PluginContext
+) => Promise<Plugin> | Plugin
+
 /**
  * 插件上下文
  */
@@ -71,8 +97,28 @@ export interface PluginContext {
   data: Map<string, any>
 }
 
+/**
+ * 插件的初始化任务（多个管理器注册同一插件对象时只初始化一次，并共同等待完成）
+ */
+const initializedPlugins = new WeakMap<Plugin, Promise<void>>()
+
+/**
+ * 执行插件初始化（失败只记录日志）
+ */
+async function initPlugin(plugin: Plugin): Promise<void> {
+  if (!plugin.init) return
+
+  try {
+    await plugin.init()
+  } catch (error) {
+    logger.error(`插件 ${plugin.name} 初始化失败`, error as Error)
+  }
+}
+
 /**
  * 插件管理器
+ *
+ * 插件按注册顺序执行；init 在第一次执行钩子前依次等待完成。
  */
 export class PluginManager {
   private plugins: Plugin[] = []
@@ -97,12 +143,20 @@ export class PluginManager {
 
     this.plugins.push(plugin)
     logger.debug(`已注册插件: ${plugin.name}`)
+  }
 
-    // 初始化插件
-    if (plugin.init) {
-      Promise.resolve(plugin.init()).catch(error => {
-        logger.error(`插件 ${plugin.name} 初始化失败`, error)
-      })
+  /**
+   * 按注册顺序初始化尚未初始化的插件
+   */
+  async initialize(): Promise<void> {
+    for (const plugin of this.plugins) {
+      let init = initializedPlugins.get(plugin)
+      if (!init) {
+        init = initPlugin(plugin)
+        initializedPlugins.set(plugin, init)
+      }
+
+      await init
     }
   }
 
@@ -127,6 +181,7 @@ export class PluginManager {
     }
 
     this.plugins.splice(index, 1)
+    initializedPlugins.delete(plugin)
     logger.debug(`已取消注册插件: ${name}`)
   }
 
@@ -137,6 +192,8 @@ export class PluginManager {
     hookName: K,
     ...args: Parameters<NonNullable<PluginHooks[K]>>
   ): Promise<any> {
+    await this.initialize()
+
     let result = args[0]
 
     for (const plugin of this.plugins) {
@@ -144,8 +201,12 @@ export class PluginManager {
       
       if (hook) {
         try {
+          // 钩子返回 undefined 时沿用上一个值（只观察不修改的钩子）
           // @ts-ignore
-          result = await Promise.resolve(hook(result, ...args.slice(1)))
+          const value = await Promise.resolve(hook(result, ...args.slice(1)))
+          if (value !== undefined) {
+            result = value
+          }
         } catch (error) {
           logger.error(`插件 ${plugin.name} 的钩子 ${hookName} 执行失败`, error as Error)
         }
@@ -155,6 +216,42 @@ export class PluginManager {
     return result
   }
 
+  /**
+   * 注册插件提供的 CLI 子命令
+   */
+  async registerCommands(program: Command): Promise<void> {
+    await this.initialize()
+
+    for (const plugin of this.plugins) {
+      if (!plugin.commands) continue
+
+      try {
+        await plugin.commands(program, this.context)
+      } catch (error) {
+        logger.error(`插件 ${plugin.name} 注册命令失败`, error as Error)
+      }
+    }
+  }
+
+  /**
+   * 获取插件格式化器（同名时先注册的插件优先）
+   */
+  getFormatter(name: string): PluginFormatter | undefined {
+    for (const plugin of this.plugins) {
+      const formatter = plugin.formatters?.[name]
+      if (formatter) return formatter
+    }
+
+    return undefined
+  }
+
+  /**
+   * 获取所有插件格式化器名称
+   */
+  getFormatterNames(): string[] {
+    return [...new Set(this.plugins.flatMap(p => Object.keys(p.formatters || {})))]
+  }
+
   /**
    * 获取所有插件
    */
@@ -181,6 +278,7 @@ export class PluginManager {
           logger.error(`插件 ${plugin.name} 销毁失败`, error as Error)
         }
       }
+      initializedPlugins.delete(plugin)
     }
 
     this.plugins = []
@@ -212,6 +310,8 @@ export function createPlugin(
     description?: string
     init?: () => Promise<void> | void
     destroy?: () => Promise<void> | void
+    commands?: Plugin['commands']
+    formatters?: Plugin['formatters']
   }
 ): Plugin {
   return {
@@ -221,5 +321,7 @@ export function createPlugin(
     hooks,
     init: options?.init,
     destroy: options?.destroy,
+    commands: options?.commands,
+    formatters: options?.formatters,
   }
 }
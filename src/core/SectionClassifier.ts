@@ -0,0 +1,158 @@
+/**
+ * 章节分类器
+ *
+ * 按配置的规则将提交归入章节，规则按声明顺序匹配，第一条匹配的规则生效；
+ * 未匹配任何规则的提交按类型分组。
+ */
+
+import type { ChangelogCommit, ChangelogSection } from '../types/changelog.js'
+import type { CommitTypeConfig, SectionRule } from '../types/config.js'
+import { matchesGlob } from '../utils/file.js'
+
+/**
+ * 转换为正则表达式（去掉 g/y 标志，避免 test() 之间保留 lastIndex）
+ */
+function toRegExp(pattern: string | RegExp): RegExp {
+  return typeof pattern === 'string' ? new RegExp(pattern) : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+}
+
+/**
+ * 匹配名称（字符串或字符串列表精确匹配，正则按模式匹配）
+ */
+function matchesName(value: string | undefined, expected: string | string[] | RegExp): boolean {
+  if (expected instanceof RegExp) {
+    return value !== undefined && toRegExp(expected).test(value)
+  }
+
+  return value !== undefined && (Array.isArray(expected) ? expected : [expected]).includes(value)
+}
+
+/**
+ * 提交是否满足规则的全部条件
+ */
+export function matchesSectionRule(rule: SectionRule, commit: ChangelogCommit): boolean {
+  if (rule.type !== undefined && !matchesName(commit.type, rule.type)) {
+    return false
+  }
+
+  if (rule.scope !== undefined && !matchesName(commit.scope, rule.scope)) {
+    return false
+  }
+
+  if (rule.subject !== undefined && !toRegExp(rule.subject).test(commit.subject)) {
+    return false
+  }
+
+  if (rule.body !== undefined && !toRegExp(rule.body).test(commit.body || '')) {
+    return false
+  }
+
+  if (rule.author !== undefined && !toRegExp(rule.author).test(`${commit.author.name} <${commit.author.email}>`)) {
+    return false
+  }
+
+  if (rule.files !== undefined && !(commit.files || []).some(file => matchesGlob(file, rule.files!))) {
+    return false
+  }
+
+  for (const [token, expected] of Object.entries(rule.trailers || {})) {
+    const values = (commit.trailers || [])
+      .filter(trailer => trailer.token.toLowerCase() === token.toLowerCase())
+      .map(trailer => trailer.value)
+
+    if (expected === true ? values.length === 0 : !values.some(value => toRegExp(expected).test(value))) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * 章节分类器配置
+ */
+export interface SectionClassifierConfig {
+  /** 分类规则 */
+  rules?: SectionRule[]
+
+  /** 类型配置（提供类型章节的标题和优先级） */
+  types?: CommitTypeConfig[]
+}
+
+/**
+ * 章节分类器
+ */
+export class SectionClassifier {
+  private rules: SectionRule[]
+  private types: CommitTypeConfig[]
+
+  constructor(config: SectionClassifierConfig = {}) {
+    this.rules = config.rules || []
+    this.types = config.types || []
+  }
+
+  /**
+   * 是否有需要修改文件列表的规则
+   */
+  needsFiles(): boolean {
+    return this.rules.some(rule => rule.files !== undefined)
+  }
+
+  /**
+   * 查找提交匹配的第一条规则
+   */
+  match(commit: ChangelogCommit): SectionRule | undefined {
+    return this.rules.find(rule => matchesSectionRule(rule, commit))
+  }
+
+  /**
+   * 获取提交所属章节的标题
+   */
+  getSectionTitle(commit: ChangelogCommit): string {
+    return this.match(commit)?.section ?? this.getTypeConfig(commit.type)?.section ?? commit.type
+  }
+
+  /**
+   * 将提交分组为章节（按优先级排序，标题相同的章节合并）
+   *
+   * @param getTypeTitle - 未配置类型时的章节标题
+   */
+  classify(commits: ChangelogCommit[], getTypeTitle: (type: string) => string = type => type): ChangelogSection[] {
+    const sections = new Map<string, ChangelogSection>()
+
+    for (const commit of commits) {
+      const rule = this.match(commit)
+      const typeConfig = this.getTypeConfig(commit.type)
+      const title = rule?.section ?? typeConfig?.section ?? getTypeTitle(commit.type)
+
+      if (!sections.has(title)) {
+        // 规则章节标题与类型章节相同时沿用该类型
+        const sameTitleType = rule && this.types.find(t => t.section === title)
+        sections.set(title, {
+          title,
+          type: rule ? sameTitleType?.type ?? title : commit.type,
+          commits: [],
+          priority: rule ? rule.priority ?? sameTitleType?.priority : typeConfig?.priority,
+        })
+      }
+
+      sections.get(title)!.commits.push(commit)
+    }
+
+    return Array.from(sections.values()).sort((a, b) => (a.priority ?? 999) - (b.priority ?? 999))
+  }
+
+  /**
+   * 获取类型配置
+   */
+  private getTypeConfig(type: string): CommitTypeConfig | undefined {
+    return this.types.find(t => t.type === type)
+  }
+}
+
+/**
+ * 创建章节分类器
+ */
+export function createSectionClassifier(config?: SectionClassifierConfig): SectionClassifier {
+  return new SectionClassifier(config)
+}
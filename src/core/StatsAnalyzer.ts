@@ -37,11 +37,12 @@ export class StatsAnalyzer {
    * 分析提交统计
    */
   analyze(commits: ChangelogCommit[]): StatsAnalysisResult {
-    const totalCommits = commits.length
+    // squash 展开条目共享同一 hash，总数按实际提交计
+    const totalCommits = new Set(commits.map(c => c.hash)).size
 
     return {
       totalCommits,
-      byType: this.analyzeByType(commits, totalCommits),
+      byType: this.analyzeByType(commits, commits.length),
       byDate: this.analyzeByDate(commits),
       contributors: this.analyzeContributors(commits, totalCommits),
       frequency: this.analyzeFrequency(commits),
@@ -122,29 +123,46 @@ export class StatsAnalyzer {
       typeMap: Map<string, number>
     }>()
 
-    for (const commit of commits) {
-      const key = commit.author.email
+    const getData = (identity: { name: string; email: string; username?: string }) => {
+      const key = identity.email.toLowerCase()
 
       if (!contributorMap.has(key)) {
         contributorMap.set(key, {
           contributor: {
-            name: commit.author.name,
-            email: commit.author.email,
+            name: identity.name,
+            email: identity.email,
             commitCount: 0,
-            username: commit.author.username,
+            username: identity.username,
           },
           commits: [],
           typeMap: new Map(),
         })
       }
 
-      const data = contributorMap.get(key)!
-      data.contributor.commitCount++
+      return contributorMap.get(key)!
+    }
+
+    const counted = new Set<string>()
+
+    for (const commit of commits) {
+      const data = getData(commit.author)
       data.commits.push(commit)
 
       // 统计各类型提交数
       const count = data.typeMap.get(commit.type) || 0
       data.typeMap.set(commit.type, count + 1)
+
+      // 同一 squash 提交的展开条目只计一次
+      if (counted.has(commit.hash)) continue
+      counted.add(commit.hash)
+      data.contributor.commitCount++
+
+      // 共同作者计入参与提交，不计入提交数
+      for (const coAuthor of commit.coAuthors || []) {
+        const coData = getData(coAuthor)
+        coData.contributor.coAuthoredCount = (coData.contributor.coAuthoredCount || 0) + 1
+        coData.commits.push(commit)
+      }
     }
 
     const stats: ContributorStats[] = []
@@ -173,7 +191,7 @@ export class StatsAnalyzer {
     }
 
     // 按提交数降序排序
-    stats.sort((a, b) => b.commitCount - a.commitCount)
+    stats.sort((a, b) => b.commitCount - a.commitCount || (b.coAuthoredCount || 0) - (a.coAuthoredCount || 0))
 
     return stats
   }
@@ -199,7 +217,7 @@ export class StatsAnalyzer {
     const durationDays = lastDate.diff(firstDate, 'day') + 1
 
     // 计算平均值
-    const commitsPerDay = commits.length / durationDays
+    const commitsPerDay = new Set(commits.map(c => c.hash)).size / durationDays
     const commitsPerWeek = commitsPerDay * 7
     const commitsPerMonth = commitsPerDay * 30
 
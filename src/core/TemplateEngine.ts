@@ -3,9 +3,129 @@
  */
 
 import ejs from 'ejs'
+import Handlebars from 'handlebars'
+import { existsSync, readFileSync } from 'fs'
+import { dirname, extname, join } from 'path'
+import { fileURLToPath } from 'url'
 import { readFileContent } from '../utils/file.js'
-import type { ChangelogContent } from '../types/changelog.js'
-import type { TemplateConfig } from '../types/config.js'
+import type { ChangelogCommit, ChangelogContent, ChangelogSection } from '../types/changelog.js'
+import type { TemplateConfig, TemplatePresetName } from '../types/config.js'
+
+/**
+ * 模板引擎类型
+ */
+export type TemplateEngineType = NonNullable<TemplateConfig['engine']>
+
+/**
+ * Handlebars 自带的辅助函数（不会被同名的内置辅助函数覆盖）
+ */
+const HANDLEBARS_BUILTIN_HELPERS = ['if', 'unless', 'each', 'with', 'lookup', 'log']
+
+/**
+ * ChangelogContent 的可选字段（EJS 中未定义的变量会抛出 ReferenceError，因此始终提供）
+ */
+const OPTIONAL_CONTENT_FIELDS = {
+  intro: undefined,
+  prereleases: undefined,
+  breakingChanges: undefined,
+  contributors: undefined,
+  stats: undefined,
+  compareUrl: undefined,
+}
+
+/**
+ * 模板预设可覆盖的 partial
+ */
+export const TEMPLATE_PARTIALS = ['header', 'section', 'commit', 'contributors'] as const
+
+/**
+ * 模板预设（位于 templates/presets/<name>，使用 Handlebars）
+ */
+export const TEMPLATE_PRESETS: Record<TemplatePresetName, { description: string; variables?: Record<string, any> }> = {
+  'keepachangelog': {
+    description: 'Keep a Changelog 格式（Added / Changed / Fixed ...）',
+    variables: {
+      sectionTitles: {
+        feat: 'Added',
+        fix: 'Fixed',
+        perf: 'Changed',
+        refactor: 'Changed',
+        deps: 'Changed',
+        revert: 'Removed',
+        security: 'Security',
+      },
+    },
+  },
+  'github-release': {
+    description: 'GitHub Release 说明格式（标题不含版本号，仅用于发布说明，不要合并到 CHANGELOG.md）',
+  },
+  'minimal': {
+    description: '仅包含提交列表的精简格式',
+  },
+  'corporate': {
+    description: '包含发布概览和致谢表格的正式格式',
+  },
+}
+
+/**
+ * 加载后的模板预设
+ */
+export interface LoadedTemplatePreset {
+  /** 主模板内容 */
+  template: string
+
+  /** partial 内容 */
+  partials: Record<string, string>
+
+  /** 预设变量 */
+  variables: Record<string, any>
+}
+
+/**
+ * 查找内置模板目录（源码与打包产物所在层级不同，因此向上查找）
+ */
+function findTemplatesDir(): string {
+  let dir = dirname(fileURLToPath(import.meta.url))
+
+  for (let i = 0; i < 4; i++) {
+    const candidate = join(dir, 'templates')
+    if (existsSync(join(candidate, 'presets'))) {
+      return candidate
+    }
+    dir = dirname(dir)
+  }
+
+  throw new Error('找不到内置模板目录')
+}
+
+/**
+ * 获取所有模板预设名称
+ */
+export function getTemplatePresetNames(): TemplatePresetName[] {
+  return Object.keys(TEMPLATE_PRESETS) as TemplatePresetName[]
+}
+
+/**
+ * 加载模板预设
+ */
+export function loadTemplatePreset(name: string, templatesDir = findTemplatesDir()): LoadedTemplatePreset {
+  const preset = TEMPLATE_PRESETS[name as TemplatePresetName]
+  if (!preset) {
+    throw new Error(`未知的模板预设: ${name}，可用预设: ${getTemplatePresetNames().join(', ')}`)
+  }
+
+  const dir = join(templatesDir, 'presets', name)
+  const partials: Record<string, string> = {}
+  for (const partial of TEMPLATE_PARTIALS) {
+    partials[partial] = readFileSync(join(dir, 'partials', `${partial}.hbs`), 'utf-8')
+  }
+
+  return {
+    template: readFileSync(join(dir, 'changelog.hbs'), 'utf-8'),
+    partials,
+    variables: preset.variables || {},
+  }
+}
 
 /**
  * 模板引擎配置
@@ -14,8 +134,27 @@ export interface TemplateEngineConfig {
   /** 模板目录 */
   templatesDir?: string
 
+  /** 模板引擎，默认 ejs */
+  engine?: TemplateEngineType
+
   /** 自定义辅助函数 */
   helpers?: Record<string, Function>
+
+  /** 模板变量 */
+  variables?: Record<string, any>
+
+  /** Handlebars partial（名称 → 模板内容） */
+  partials?: Record<string, string>
+
+  /** 是否对输出进行 HTML 转义（仅 Handlebars，默认 true） */
+  escape?: boolean
+}
+
+/**
+ * 按模板文件扩展名推断模板引擎
+ */
+export function detectTemplateEngine(path: string): TemplateEngineType {
+  return ['.hbs', '.handlebars'].includes(extname(path).toLowerCase()) ? 'handlebars' : 'ejs'
 }
 
 /**
@@ -24,6 +163,7 @@ export interface TemplateEngineConfig {
 export class TemplateEngine {
   private config: TemplateEngineConfig
   private helpers: Record<string, Function>
+  private handlebars: typeof Handlebars | null = null
 
   constructor(config: TemplateEngineConfig = {}) {
     this.config = config
@@ -37,15 +177,16 @@ export class TemplateEngine {
    * 渲染模板
    */
   async render(template: string, data: ChangelogContent, isFile = true): Promise<string> {
-    try {
-      const templateContent = isFile ? await readFileContent(template) : template
+    const templateContent = isFile ? await readFileContent(template) : template
+    return this.renderString(templateContent, data)
+  }
 
-      return ejs.render(templateContent, {
-        ...data,
-        helpers: this.helpers,
-      }, {
-        async: false,
-      })
+  /**
+   * 渲染模板内容
+   */
+  renderString(templateContent: string, data: ChangelogContent): string {
+    try {
+      return this.compileString(templateContent)(data)
     } catch (error) {
       throw new Error(`模板渲染失败: ${(error as Error).message}`)
     }
@@ -54,15 +195,55 @@ export class TemplateEngine {
   /**
    * 编译模板
    */
-  async compile(template: string, isFile = true): Promise<ejs.TemplateFunction> {
+  async compile(template: string, isFile = true): Promise<(data: ChangelogContent) => string> {
     try {
       const templateContent = isFile ? await readFileContent(template) : template
-      return ejs.compile(templateContent, { async: false })
+      return this.compileString(templateContent)
     } catch (error) {
       throw new Error(`模板编译失败: ${(error as Error).message}`)
     }
   }
 
+  /**
+   * 编译模板内容
+   *
+   * EJS 模板通过 helpers 对象访问辅助函数；Handlebars 模板中辅助函数按名称注册，且无法执行任意 JS。
+   */
+  private compileString(templateContent: string): (data: ChangelogContent) => string {
+    const variables = this.config.variables || {}
+
+    if (this.config.engine === 'handlebars') {
+      // 先解析以便尽早暴露语法错误（compile 是惰性的）
+      Handlebars.parse(templateContent)
+      const template = this.getHandlebars().compile(templateContent, {
+        noEscape: this.config.escape === false,
+      })
+
+      return data => template({ ...variables, ...data })
+    }
+
+    const template = ejs.compile(templateContent, { async: false })
+    return data => template({ ...OPTIONAL_CONTENT_FIELDS, ...variables, ...data, helpers: this.helpers })
+  }
+
+  /**
+   * 获取注册了辅助函数的 Handlebars 实例
+   */
+  private getHandlebars(): typeof Handlebars {
+    if (!this.handlebars) {
+      this.handlebars = Handlebars.create()
+      for (const [name, fn] of Object.entries(this.helpers)) {
+        if (HANDLEBARS_BUILTIN_HELPERS.includes(name) && !this.config.helpers?.[name]) continue
+        this.handlebars.registerHelper(name, fn as Handlebars.HelperDelegate)
+      }
+      for (const [name, partial] of Object.entries(this.config.partials || {})) {
+        this.handlebars.registerPartial(name, partial)
+      }
+    }
+
+    return this.handlebars
+  }
+
   /**
    * 验证模板
    */
@@ -80,6 +261,7 @@ export class TemplateEngine {
    */
   registerHelper(name: string, fn: Function): void {
     this.helpers[name] = fn
+    this.handlebars?.registerHelper(name, fn as Handlebars.HelperDelegate)
   }
 
   /**
@@ -139,6 +321,22 @@ export class TemplateEngine {
         return `[${text}](${url})`
       },
 
+      /**
+       * 提交中有链接的 Issue 引用（纯数字编号显示为 #123）
+       */
+      linkedIssues: (commit: ChangelogCommit) => {
+        return (commit.issues || [])
+          .map((issue, index) => ({ text: /^\d+$/.test(issue) ? `#${issue}` : issue, url: commit.issueLinks?.[index] }))
+          .filter(ref => ref.url)
+      },
+
+      /**
+       * 缩短提交 hash
+       */
+      shortenHash: (hash: string) => {
+        return hash.substring(0, 7)
+      },
+
       /**
        * 条件渲染
        */
@@ -146,6 +344,27 @@ export class TemplateEngine {
         return condition ? trueValue : falseValue
       },
 
+      /**
+       * 按标题映射合并章节（未映射的类型保留原标题，跳过空章节）
+       */
+      groupSections: (sections: ChangelogSection[], titles?: Record<string, string>) => {
+        const groups = new Map<string, ChangelogSection>()
+
+        for (const section of sections) {
+          if (section.commits.length === 0) continue
+
+          const title = titles?.[section.type] || section.title
+          const group = groups.get(title)
+          if (group) {
+            group.commits = [...group.commits, ...section.commits]
+          } else {
+            groups.set(title, { ...section, title })
+          }
+        }
+
+        return Array.from(groups.values())
+      },
+
       /**
        * 循环
        */
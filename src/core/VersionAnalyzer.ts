@@ -11,6 +11,8 @@ import type {
   VersionSuggestionType,
   VersionAnalysisResult,
 } from '../types/ai.js'
+import type { BumpLevel, BumpRulesConfig } from '../types/config.js'
+import { BumpRules } from './BumpRules.js'
 import { logger } from '../utils/logger.js'
 
 /**
@@ -28,21 +30,26 @@ export interface VersionAnalyzerConfig {
 
   /** 置信度阈值 (0-1) */
   confidenceThreshold?: number
+
+  /** 版本递增规则 */
+  bumpRules?: BumpRulesConfig
 }
 
 /**
  * 版本分析器
  */
 export class VersionAnalyzer {
-  private config: Required<VersionAnalyzerConfig>
+  private config: Required<Omit<VersionAnalyzerConfig, 'bumpRules'>>
+  private rules: BumpRules
 
   constructor(config: VersionAnalyzerConfig) {
     this.config = {
       currentVersion: config.currentVersion,
       detectVersionKeywords: config.detectVersionKeywords !== false,
       considerCommitCount: config.considerCommitCount !== false,
-      confidenceThreshold: config.confidenceThreshold || 0.7,
+      confidenceThreshold: config.confidenceThreshold ?? 0.7,
     }
+    this.rules = new BumpRules(config.bumpRules)
   }
 
   /**
@@ -65,6 +72,20 @@ export class VersionAnalyzer {
     }
   }
 
+  /**
+   * 建议的置信度是否达到阈值
+   */
+  isConfident(suggestion: VersionSuggestion): boolean {
+    return suggestion.confidence >= this.config.confidenceThreshold
+  }
+
+  /**
+   * 获取置信度阈值
+   */
+  getConfidenceThreshold(): number {
+    return this.config.confidenceThreshold
+  }
+
   /**
    * 分析提交统计
    */
@@ -74,6 +95,7 @@ export class VersionAnalyzer {
     fixCount: number
     otherCount: number
     totalCommits: number
+    levels: Record<BumpLevel, number>
     hasVersionKeywords: {
       major: boolean
       minor: boolean
@@ -84,6 +106,7 @@ export class VersionAnalyzer {
     let featureCount = 0
     let fixCount = 0
     let otherCount = 0
+    const levels: Record<BumpLevel, number> = { major: 0, minor: 0, patch: 0 }
 
     const hasVersionKeywords = {
       major: false,
@@ -97,6 +120,12 @@ export class VersionAnalyzer {
         hasBreakingChanges = true
       }
 
+      // 按递增规则统计级别
+      const level = this.rules.getCommitLevel(commit)
+      if (level) {
+        levels[level]++
+      }
+
       // 统计各类型提交
       switch (commit.type) {
         case 'feat':
@@ -133,6 +162,7 @@ export class VersionAnalyzer {
       fixCount,
       otherCount,
       totalCommits: commits.length,
+      levels,
       hasVersionKeywords,
     }
   }
@@ -151,7 +181,7 @@ export class VersionAnalyzer {
     const suggestions: VersionSuggestion[] = []
 
     // Major 版本建议
-    if (stats.hasBreakingChanges || stats.hasVersionKeywords.major) {
+    if (stats.levels.major > 0 || stats.hasVersionKeywords.major) {
       const nextMajor = semver.inc(current, 'major')!
       const confidence = this.calculateConfidence('major', stats)
 
@@ -159,8 +189,8 @@ export class VersionAnalyzer {
         version: nextMajor,
         type: 'major',
         confidence,
-        reason: stats.hasBreakingChanges
-          ? '检测到破坏性变更'
+        reason: stats.levels.major > 0
+          ? stats.hasBreakingChanges ? '检测到破坏性变更' : `${stats.levels.major} 个提交要求 major 版本`
           : '检测到 major 版本关键词',
         details: {
           hasBreakingChanges: stats.hasBreakingChanges,
@@ -172,7 +202,7 @@ export class VersionAnalyzer {
     }
 
     // Minor 版本建议
-    if (stats.featureCount > 0 || stats.hasVersionKeywords.minor) {
+    if (stats.levels.minor > 0 || stats.hasVersionKeywords.minor) {
       const nextMinor = semver.inc(current, 'minor')!
       const confidence = this.calculateConfidence('minor', stats)
 
@@ -180,8 +210,10 @@ export class VersionAnalyzer {
         version: nextMinor,
         type: 'minor',
         confidence,
-        reason: stats.featureCount > 0
-          ? `添加了 ${stats.featureCount} 个新功能`
+        reason: stats.levels.minor > 0
+          ? stats.featureCount === stats.levels.minor
+            ? `添加了 ${stats.featureCount} 个新功能`
+            : `${stats.levels.minor} 个提交要求 minor 版本`
           : '检测到 minor 版本关键词',
         details: {
           hasBreakingChanges: stats.hasBreakingChanges,
@@ -216,7 +248,34 @@ export class VersionAnalyzer {
     // 按置信度排序
     suggestions.sort((a, b) => b.confidence - a.confidence)
 
-    return suggestions
+    return this.adjustSuggestions(suggestions)
+  }
+
+  /**
+   * 按 0.x 规则调整建议（降一级递增，相同类型只保留置信度最高的建议）
+   */
+  private adjustSuggestions(suggestions: VersionSuggestion[]): VersionSuggestion[] {
+    const currentVersion = this.config.currentVersion
+    if (!this.rules.isPreMajor(currentVersion)) {
+      return suggestions
+    }
+
+    const adjusted: VersionSuggestion[] = []
+    for (const suggestion of suggestions) {
+      const type = this.rules.adjust(suggestion.type as BumpLevel, currentVersion)
+      if (adjusted.some(s => s.type === type)) {
+        continue
+      }
+
+      adjusted.push(type === suggestion.type ? suggestion : {
+        ...suggestion,
+        version: semver.inc(currentVersion, type)!,
+        type,
+        reason: `${suggestion.reason}（0.x 版本按 ${type} 递增）`,
+      })
+    }
+
+    return adjusted
   }
 
   /**
@@ -229,8 +288,8 @@ export class VersionAnalyzer {
     let confidence = 0
 
     if (type === 'major') {
-      // 有破坏性变更，置信度很高
-      if (stats.hasBreakingChanges) {
+      // 有要求 major 的提交（通常是破坏性变更），置信度很高
+      if (stats.levels.major > 0) {
         confidence = 0.95
       } else if (stats.hasVersionKeywords.major) {
         confidence = 0.7
@@ -239,9 +298,9 @@ export class VersionAnalyzer {
       }
     } else if (type === 'minor') {
       // 有新功能，置信度高
-      if (stats.featureCount > 0) {
+      if (stats.levels.minor > 0) {
         // 根据新功能数量调整置信度
-        const ratio = stats.featureCount / Math.max(stats.totalCommits, 1)
+        const ratio = stats.levels.minor / Math.max(stats.totalCommits, 1)
         confidence = Math.min(0.9, 0.6 + ratio * 0.3)
       } else if (stats.hasVersionKeywords.minor) {
         confidence = 0.6
@@ -250,20 +309,20 @@ export class VersionAnalyzer {
       }
 
       // 如果有破坏性变更，降低 minor 版本的置信度
-      if (stats.hasBreakingChanges) {
+      if (stats.levels.major > 0) {
         confidence *= 0.5
       }
     } else if (type === 'patch') {
       // 主要是修复，置信度中等
-      if (stats.fixCount > 0 && stats.featureCount === 0) {
-        const ratio = stats.fixCount / Math.max(stats.totalCommits, 1)
+      if (stats.levels.patch > 0 && stats.levels.minor === 0) {
+        const ratio = stats.levels.patch / Math.max(stats.totalCommits, 1)
         confidence = Math.min(0.85, 0.5 + ratio * 0.35)
       } else {
         confidence = 0.5
       }
 
       // 如果有破坏性变更或新功能，降低 patch 版本的置信度
-      if (stats.hasBreakingChanges || stats.featureCount > 0) {
+      if (stats.levels.major > 0 || stats.levels.minor > 0) {
         confidence *= 0.3
       }
     }
@@ -277,6 +336,11 @@ export class VersionAnalyzer {
       }
     }
 
+    // 仅凭关键词的建议不能达到阈值，只有递增规则（破坏性变更、类型、trailer）才能直接采用
+    if ((type === 'major' || type === 'minor') && stats.levels[type] === 0) {
+      confidence = Math.min(confidence, this.config.confidenceThreshold - 0.01)
+    }
+
     return Math.max(0, Math.min(1, confidence))
   }
 
@@ -348,8 +412,9 @@ export class VersionAnalyzer {
  */
 export async function analyzeVersion(
   currentVersion: string,
-  commits: ChangelogCommit[]
+  commits: ChangelogCommit[],
+  bumpRules?: BumpRulesConfig
 ): Promise<VersionAnalysisResult> {
-  const analyzer = new VersionAnalyzer({ currentVersion })
+  const analyzer = new VersionAnalyzer({ currentVersion, bumpRules })
   return analyzer.analyze(commits)
 }
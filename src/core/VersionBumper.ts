@@ -0,0 +1,356 @@
+/**
+ * 版本文件更新器
+ *
+ * 发布时更新 bumpFiles 中各文件的版本号。所有文件先计算出新内容，
+ * 全部成功后再通过临时文件 + 重命名写入，任一文件失败时回滚已写入的文件。
+ */
+
+import { readFile, rename, rm, writeFile } from 'fs/promises'
+import { basename, extname, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import type { BumpFile, BumpFileConfig, BumpFileType, BumpFileUpdater } from '../types/config.js'
+import { fileExists } from '../utils/file.js'
+
+/**
+ * 版本文件变更
+ */
+export interface VersionFileChange {
+  /** 配置中的文件路径 */
+  file: string
+
+  /** 绝对路径 */
+  path: string
+
+  /** 原内容 */
+  before: string
+
+  /** 新内容 */
+  after: string
+}
+
+/**
+ * 版本文件更新器配置
+ */
+export interface VersionBumperConfig {
+  /** 工作目录 */
+  cwd?: string
+
+  /** 版本文件 */
+  files?: BumpFile[]
+}
+
+/**
+ * 带捕获组位置的匹配结果（`d` 标志）
+ */
+type IndexedMatch = RegExpExecArray & { indices: Array<[number, number] | undefined> }
+
+/**
+ * 将正则匹配中的第一个捕获组替换为版本号（全局正则替换所有匹配）
+ *
+ * 按捕获组的位置替换，避免捕获内容在匹配中更早出现时替换错位置（如 `v1\.(\d+)` 匹配 `v1.1`）。
+ */
+function replaceFirstGroup(contents: string, regex: RegExp, version: string): string {
+  const pattern = new RegExp(regex.source, regex.flags.includes('d') ? regex.flags : `${regex.flags}d`)
+  let result = ''
+  let last = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(contents))) {
+    const range = (match as IndexedMatch).indices[1]
+    if (range) {
+      result += contents.slice(last, range[0]) + version
+      last = range[1]
+    }
+
+    if (!pattern.global) break
+    if (match[0] === '') pattern.lastIndex++
+  }
+
+  return result + contents.slice(last)
+}
+
+/**
+ * TOML 中可能包含版本号的表
+ */
+const TOML_VERSION_TABLES = ['package', 'project', 'tool.poetry', 'workspace.package']
+
+/**
+ * 查找 TOML 版本号所在行
+ */
+function findTomlVersionLine(lines: string[]): { index: number; version: string } | undefined {
+  let table = ''
+
+  for (const [index, line] of lines.entries()) {
+    const header = line.match(/^\s*\[([^\]]+)\]\s*$/)
+    if (header) {
+      table = header[1].trim()
+      continue
+    }
+
+    const match = line.match(/^\s*version\s*=\s*["']([^"']*)["']/)
+    if (match && TOML_VERSION_TABLES.includes(table)) {
+      return { index, version: match[1] }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * YAML 顶层 version 字段
+ */
+const YAML_VERSION_REGEX = /^version:\s*["']?([^"'\s#]+)["']?/m
+
+/**
+ * 内置更新器
+ */
+export const BUILTIN_BUMP_UPDATERS: Record<BumpFileType, BumpFileUpdater> = {
+  json: {
+    readVersion: contents => JSON.parse(contents).version,
+    writeVersion: (contents, version) => {
+      const data = JSON.parse(contents)
+      const indent = contents.match(/^[ \t]+(?=")/m)?.[0] ?? 2
+      const newline = contents.endsWith('\n') ? '\n' : ''
+      return `${JSON.stringify({ ...data, version }, null, indent)}${newline}`
+    },
+  },
+  toml: {
+    readVersion: contents => findTomlVersionLine(contents.split('\n'))?.version,
+    writeVersion: (contents, version) => {
+      const lines = contents.split('\n')
+      const found = findTomlVersionLine(lines)
+      if (!found) {
+        throw new Error('未找到 [package]、[project] 或 [tool.poetry] 中的 version')
+      }
+
+      lines[found.index] = lines[found.index].replace(found.version, version)
+      return lines.join('\n')
+    },
+  },
+  yaml: {
+    readVersion: contents => contents.match(YAML_VERSION_REGEX)?.[1],
+    writeVersion: (contents, version) => {
+      if (!YAML_VERSION_REGEX.test(contents)) {
+        throw new Error('未找到顶层 version 字段')
+      }
+      return replaceFirstGroup(contents, YAML_VERSION_REGEX, version)
+    },
+  },
+  plain: {
+    readVersion: contents => contents.trim() || undefined,
+    writeVersion: (contents, version) => contents.replace(/^\s*\S*/, version),
+  },
+}
+
+/**
+ * 按文件名识别内置类型
+ */
+export function detectBumpFileType(file: string): BumpFileType | undefined {
+  const name = basename(file)
+  const ext = extname(name).toLowerCase()
+
+  if (ext === '.json') return 'json'
+  if (ext === '.toml') return 'toml'
+  if (ext === '.yaml' || ext === '.yml') return 'yaml'
+  if (name === 'VERSION' || name.toLowerCase() === 'version.txt') return 'plain'
+
+  return undefined
+}
+
+/**
+ * 创建正则更新器（替换第一个捕获组的所有匹配）
+ */
+export function createPatternUpdater(pattern: string | RegExp): BumpFileUpdater {
+  const source = typeof pattern === 'string' ? pattern : pattern.source
+  const flags = typeof pattern === 'string' ? 'gm' : pattern.flags.replace('g', '') + 'g'
+  const regex = () => new RegExp(source, flags)
+
+  // 空字符串一定能匹配 `source|`，结果长度减一即捕获组数量
+  if (new RegExp(`${source}|`).exec('')!.length < 2) {
+    throw new Error(`正则缺少捕获组: ${source}`)
+  }
+
+  return {
+    readVersion: contents => regex().exec(contents)?.[1],
+    writeVersion: (contents, version) => {
+      if (!regex().test(contents)) {
+        throw new Error(`未匹配到版本号: ${source}`)
+      }
+      return replaceFirstGroup(contents, regex(), version)
+    },
+  }
+}
+
+/**
+ * 规范化版本文件配置
+ */
+function normalizeBumpFile(file: BumpFile): BumpFileConfig {
+  return typeof file === 'string' ? { file } : file
+}
+
+/**
+ * 版本文件更新器
+ */
+export class VersionBumper {
+  private cwd: string
+  private files: BumpFileConfig[]
+
+  constructor(config: VersionBumperConfig = {}) {
+    this.cwd = config.cwd || process.cwd()
+    this.files = (config.files || []).map(normalizeBumpFile)
+  }
+
+  /**
+   * 读取第一个能识别出版本号的文件中的版本号
+   */
+  async readVersion(): Promise<string | undefined> {
+    for (const config of this.files) {
+      const path = resolve(this.cwd, config.file)
+      if (!fileExists(path)) continue
+
+      const updater = await this.resolveUpdater(config)
+      const version = updater.readVersion?.(await readFile(path, 'utf-8'))
+      if (version) {
+        return version
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * 计算各文件写入新版本号后的内容（不写入），只返回有变化的文件
+   */
+  async plan(version: string): Promise<VersionFileChange[]> {
+    const changes: VersionFileChange[] = []
+
+    for (const config of this.files) {
+      const path = resolve(this.cwd, config.file)
+      if (!fileExists(path)) {
+        throw new Error(`版本文件不存在: ${config.file}`)
+      }
+
+      try {
+        const updater = await this.resolveUpdater(config)
+        const before = await readFile(path, 'utf-8')
+        const after = updater.writeVersion(before, version)
+
+        if (after !== before) {
+          changes.push({ file: config.file, path, before, after })
+        }
+      } catch (error) {
+        throw new Error(`更新版本文件 ${config.file} 失败: ${(error as Error).message}`)
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * 写入变更（先写入临时文件，全部成功后再重命名，失败时回滚）
+   */
+  async apply(changes: VersionFileChange[]): Promise<void> {
+    const temps = changes.map(change => `${change.path}.${process.pid}.tmp`)
+    const written: VersionFileChange[] = []
+
+    try {
+      for (const [index, change] of changes.entries()) {
+        await writeFile(temps[index], change.after, 'utf-8')
+      }
+
+      for (const [index, change] of changes.entries()) {
+        await rename(temps[index], change.path)
+        written.push(change)
+      }
+    } catch (error) {
+      for (const change of written) {
+        await writeFile(change.path, change.before, 'utf-8')
+      }
+      await Promise.all(temps.map(temp => rm(temp, { force: true })))
+
+      throw new Error(`写入版本文件失败，已回滚: ${(error as Error).message}`)
+    }
+  }
+
+  /**
+   * 更新所有版本文件
+   */
+  async bump(version: string): Promise<VersionFileChange[]> {
+    const changes = await this.plan(version)
+    await this.apply(changes)
+    return changes
+  }
+
+  /**
+   * 获取文件的更新器
+   */
+  private async resolveUpdater(config: BumpFileConfig): Promise<BumpFileUpdater> {
+    if (typeof config.updater === 'object') {
+      return config.updater
+    }
+
+    if (typeof config.updater === 'string') {
+      return this.loadUpdater(config.updater)
+    }
+
+    if (config.pattern !== undefined) {
+      return createPatternUpdater(config.pattern)
+    }
+
+    const type = config.type ?? detectBumpFileType(config.file)
+    if (!type) {
+      throw new Error(`无法识别版本文件类型: ${config.file}，请指定 type、pattern 或 updater`)
+    }
+
+    return BUILTIN_BUMP_UPDATERS[type]
+  }
+
+  /**
+   * 加载自定义更新器模块（相对于工作目录）
+   */
+  private async loadUpdater(file: string): Promise<BumpFileUpdater> {
+    let module: any
+    try {
+      module = await import(pathToFileURL(resolve(this.cwd, file)).href)
+    } catch (error) {
+      throw new Error(`无法加载版本更新器 ${file}: ${(error as Error).message}`)
+    }
+
+    const updater = module.default ?? module
+    if (typeof updater?.writeVersion !== 'function') {
+      throw new Error(`版本更新器 ${file} 必须导出 writeVersion 函数`)
+    }
+
+    return updater
+  }
+}
+
+/**
+ * 生成变更的逐行差异
+ */
+export function formatFileDiff(change: VersionFileChange): string {
+  const before = change.before.split('\n')
+  const after = change.after.split('\n')
+  const lines = [`--- a/${change.file}`, `+++ b/${change.file}`]
+
+  if (before.length !== after.length) {
+    lines.push(`@@ -1,${before.length} +1,${after.length} @@`)
+    lines.push(...before.map(line => `-${line}`), ...after.map(line => `+${line}`))
+    return lines.join('\n')
+  }
+
+  for (const [index, line] of before.entries()) {
+    if (line !== after[index]) {
+      lines.push(`@@ -${index + 1} +${index + 1} @@`, `-${line}`, `+${after[index]}`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * 创建版本文件更新器
+ */
+export function createVersionBumper(config?: VersionBumperConfig): VersionBumper {
+  return new VersionBumper(config)
+}
@@ -6,11 +6,19 @@ export * from './ChangelogGenerator.js'
 export {
   CommitParser,
   createCommitParser,
+  parseTrailers,
+  getTrailerValues,
+  getCommitKey,
   type CommitParserConfig,
   type CommitTemplate,
   type ValidationResult as CommitValidationResult,
   type ValidationError as CommitValidationError,
 } from './CommitParser.js'
+export * from './CommitPresets.js'
+export * from './CommitOverrides.js'
+export * from './ChangelogFragments.js'
+export * from './SectionClassifier.js'
+export * from './CommitFilter.js'
 export * from './StatsAnalyzer.js'
 export * from './TemplateEngine.js'
 export * from './PluginManager.js'
@@ -24,6 +32,8 @@ export {
   type ValidationWarning,
 } from './ChangelogValidator.js'
 export * from './VersionAnalyzer.js'
+export * from './BumpRules.js'
+export * from './VersionBumper.js'
 export * from './AIEnhancer.js'
 export * from './DependencyTracker.js'
 export * from './SecurityScanner.js'
@@ -178,6 +178,21 @@ export class HtmlFormatter {
       font-size: 0.9rem;
     }
 
+    .version-intro {
+      margin-bottom: 20px;
+      color: ${isDark ? '#ccc' : '#444'};
+    }
+
+    .version-intro p {
+      margin-bottom: 10px;
+    }
+
+    .version-prereleases {
+      margin-bottom: 20px;
+      color: ${isDark ? '#999' : '#666'};
+      font-size: 0.9rem;
+    }
+
     .section {
       margin-bottom: 25px;
     }
@@ -310,13 +325,31 @@ export class HtmlFormatter {
     parts.push(`  <p class="version-date">${this.escapeHtml(content.date)}</p>`)
     parts.push('</div>')
 
+    // 版本简介（按空行分段）
+    if (content.intro) {
+      parts.push('<div class="version-intro">')
+      for (const paragraph of content.intro.split(/\n\s*\n/)) {
+        parts.push(`  <p>${this.escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+      }
+      parts.push('</div>')
+    }
+
+    // 汇总的预发布版本
+    if (content.prereleases && content.prereleases.length > 0) {
+      const links = content.prereleases.map(p => p.compareUrl
+        ? `<a href="${this.escapeHtml(p.compareUrl)}">${this.escapeHtml(p.version)}</a>`
+        : this.escapeHtml(p.version))
+      parts.push(`<p class="version-prereleases">Prereleases: ${links.join(', ')}</p>`)
+    }
+
     // Breaking Changes
     if (content.breakingChanges && content.breakingChanges.length > 0) {
       parts.push('<div class="breaking-changes">')
       parts.push('  <h3>💥 Breaking Changes</h3>')
       parts.push('  <ul>')
       for (const bc of content.breakingChanges) {
-        parts.push(`    <li>${this.escapeHtml(bc.description)}</li>`)
+        const migration = bc.migration ? `<br><strong>Migration</strong>: ${this.escapeHtml(bc.migration)}` : ''
+        parts.push(`    <li>${this.escapeHtml(bc.description)}${migration}</li>`)
       }
       parts.push('  </ul>')
       parts.push('</div>')
@@ -357,19 +390,38 @@ export class HtmlFormatter {
       }
       text += this.escapeHtml(commit.subject)
 
+      if (commit.revert?.link) {
+        text += ` (reverts <a href="${commit.revert.link}" class="commit-link" target="_blank">${commit.revert.hash.substring(0, 7)}</a>)`
+      }
+
       if (this.config.includePRLinks && commit.pr && commit.prLink) {
         text += ` <a href="${commit.prLink}" class="commit-link" target="_blank">#${commit.pr}</a>`
       }
 
+      if (this.config.includePRLinks && commit.issues && commit.issueLinks) {
+        commit.issues.forEach((issue, index) => {
+          const link = commit.issueLinks![index]
+          if (!link) return
+          const label = /^\d+$/.test(issue) ? `#${issue}` : issue
+          text += ` <a href="${link}" class="commit-link" target="_blank">${this.escapeHtml(label)}</a>`
+        })
+      }
+
       if (this.config.includeCommitHash && commit.commitLink) {
         text += ` <a href="${commit.commitLink}" class="commit-link" target="_blank">${commit.shortHash}</a>`
       }
 
-      if (this.config.includeAuthors) {
-        const authorName = commit.author.username || commit.author.name
+      // 片段条目没有作者
+      const authorName = commit.author.username || commit.author.name
+      if (this.config.includeAuthors && authorName) {
         text += ` <span class="commit-author">- @${this.escapeHtml(authorName)}</span>`
       }
 
+      // 非破坏性变更的迁移说明（破坏性变更的在 Breaking Changes 中列出）
+      if (commit.migration && !commit.breaking) {
+        text += `<br><strong>Migration</strong>: ${this.escapeHtml(commit.migration)}`
+      }
+
       parts.push(`      ${text}`)
       parts.push('    </li>')
     }
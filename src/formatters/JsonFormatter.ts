@@ -74,6 +74,8 @@ export class JsonFormatter {
     const data: any = {
       version: content.version,
       date: content.date,
+      intro: content.intro,
+      prereleases: content.prereleases,
       sections: content.sections.map(section => ({
         title: section.title,
         type: section.type,
@@ -89,6 +91,8 @@ export class JsonFormatter {
           issues: commit.issues,
           issueLinks: commit.issueLinks,
           breaking: commit.breaking,
+          trailers: commit.trailers,
+          revert: commit.revert,
           date: commit.date,
           commitLink: commit.commitLink,
         })),
@@ -101,6 +105,7 @@ export class JsonFormatter {
         subject: commit.subject,
         author: commit.author,
         pr: commit.pr,
+        issues: commit.issues,
         breaking: commit.breaking,
         date: commit.date,
       })),
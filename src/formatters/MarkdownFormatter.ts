@@ -57,16 +57,27 @@ export class MarkdownFormatter {
     const header = this.formatHeader(content)
     lines.push(header, '')
 
+    // 版本简介
+    if (content.intro) {
+      lines.push(content.intro, '')
+    }
+
     // 比较链接
     if (content.compareUrl) {
       lines.push(`**Full Changelog**: ${content.compareUrl}`, '')
     }
 
+    // 汇总的预发布版本
+    if (content.prereleases && content.prereleases.length > 0) {
+      const links = content.prereleases.map(p => p.compareUrl ? `[${p.version}](${p.compareUrl})` : p.version)
+      lines.push(`**Prereleases**: ${links.join(', ')}`, '')
+    }
+
     // Breaking Changes
     if (content.breakingChanges && content.breakingChanges.length > 0) {
       lines.push(this.formatHeading('💥 Breaking Changes', 3), '')
       for (const bc of content.breakingChanges) {
-        lines.push(`- ${bc.description}`)
+        lines.push(`- ${bc.description.replace(/\n/g, '\n  ')}`)
         if (bc.migration) {
           lines.push(`  - **Migration**: ${bc.migration}`)
         }
@@ -136,23 +147,44 @@ export class MarkdownFormatter {
       // 主题
       line += commit.subject
 
+      // 被回滚的原始条目
+      if (commit.revert?.link) {
+        line += ` (reverts [${commit.revert.hash.substring(0, 7)}](${commit.revert.link}))`
+      }
+
       // PR 链接
       if (this.config.includePRLinks && commit.pr && commit.prLink) {
         line += ` ([#${commit.pr}](${commit.prLink}))`
       }
 
+      // Issue 链接
+      if (this.config.includePRLinks && commit.issues && commit.issueLinks) {
+        const issueLinks = commit.issues
+          .map((issue, index) => ({ text: /^\d+$/.test(issue) ? `#${issue}` : issue, link: commit.issueLinks![index] }))
+          .filter(({ link }) => link)
+          .map(({ text, link }) => `[${text}](${link})`)
+        if (issueLinks.length > 0) {
+          line += ` (${issueLinks.join(', ')})`
+        }
+      }
+
       // Commit hash
       if (this.config.includeCommitHash && commit.commitLink) {
         line += ` ([${commit.shortHash}](${commit.commitLink}))`
       }
 
-      // 作者
-      if (this.config.includeAuthors) {
-        const authorName = commit.author.username || commit.author.name
+      // 作者（片段条目没有作者）
+      const authorName = commit.author.username || commit.author.name
+      if (this.config.includeAuthors && authorName) {
         line += ` - @${authorName}`
       }
 
       lines.push(line)
+
+      // 非破坏性变更的迁移说明（破坏性变更的在 Breaking Changes 中列出）
+      if (commit.migration && !commit.breaking) {
+        lines.push(`  - **Migration**: ${commit.migration}`)
+      }
     }
 
     return lines.join('\n')
@@ -168,6 +168,12 @@ export class GitHubReleaseManager {
   private formatReleaseBody(changelog: ChangelogContent): string {
     const lines: string[] = []
 
+    // 版本简介
+    if (changelog.intro) {
+      lines.push(changelog.intro)
+      lines.push('')
+    }
+
     // 添加统计信息
     if (changelog.stats) {
       lines.push('## 📊 统计')
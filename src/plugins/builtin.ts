@@ -3,6 +3,7 @@
  */
 
 import { createPlugin } from '../core/PluginManager.js'
+import { getCommitKey } from '../core/CommitParser.js'
 import type { ChangelogCommit } from '../types/changelog.js'
 
 /**
@@ -57,8 +58,9 @@ export const deduplicatePlugin = createPlugin(
       const unique: ChangelogCommit[] = []
 
       for (const commit of commits) {
-        if (!seen.has(commit.hash)) {
-          seen.add(commit.hash)
+        const key = getCommitKey(commit)
+        if (!seen.has(key)) {
+          seen.add(key)
           unique.push(commit)
         }
       }
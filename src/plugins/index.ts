@@ -3,3 +3,4 @@
  */
 
 export * from './builtin.js'
+export * from './loader.js'
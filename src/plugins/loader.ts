@@ -0,0 +1,130 @@
+/**
+ * 插件加载器
+ */
+
+import { createRequire } from 'module'
+import { isAbsolute, join, resolve } from 'path'
+import { pathToFileURL } from 'url'
+import type { Plugin, PluginContext, PluginFactory } from '../core/PluginManager.js'
+import type { PluginConfig } from '../types/config.js'
+import { builtinPlugins } from './builtin.js'
+
+/**
+ * 判断是否为本地路径
+ */
+function isLocalPath(name: string): boolean {
+  return name.startsWith('.') || isAbsolute(name)
+}
+
+/**
+ * 判断是否为插件对象
+ */
+function isPlugin(value: unknown): value is Plugin {
+  return !!value && typeof value === 'object' && typeof (value as Plugin).name === 'string'
+    && typeof (value as Plugin).hooks === 'object'
+}
+
+/**
+ * 导入插件模块（本地路径相对于 cwd，npm 包从 cwd 开始解析）
+ */
+async function importPluginModule(name: string, cwd: string): Promise<any> {
+  const file = isLocalPath(name)
+    ? resolve(cwd, name)
+    : createRequire(join(cwd, 'package.json')).resolve(name)
+
+  return await import(pathToFileURL(file).href)
+}
+
+/**
+ * 已加载的插件（按插件上下文隔离，上下文内按工作目录、插件名和选项缓存）
+ */
+const loadedPlugins = new WeakMap<PluginContext, Map<string, Promise<Plugin>>>()
+
+/**
+ * 加载单个插件
+ *
+ * 同一上下文重复加载同一配置时返回同一插件对象，工厂函数只调用一次；
+ * 不同上下文各自调用工厂函数，插件拿到的是所属管理器的配置。
+ */
+export async function loadPlugin(
+  config: PluginConfig,
+  cwd: string,
+  context: PluginContext
+): Promise<Plugin> {
+  if (isPlugin(config)) {
+    return config
+  }
+
+  const [name, options = {}] = Array.isArray(config) ? config : [config]
+  const key = `${cwd}\0${name}\0${JSON.stringify(options)}`
+
+  let cache = loadedPlugins.get(context)
+  if (!cache) {
+    cache = new Map()
+    loadedPlugins.set(context, cache)
+  }
+
+  let loaded = cache.get(key)
+  if (!loaded) {
+    const plugins = cache
+    loaded = importPlugin(name, options, cwd, context)
+    plugins.set(key, loaded)
+    // 加载失败时不缓存，下次重新尝试
+    loaded.catch(() => plugins.delete(key))
+  }
+
+  return loaded
+}
+
+/**
+ * 导入并创建插件
+ */
+async function importPlugin(
+  name: string,
+  options: Record<string, any>,
+  cwd: string,
+  context: PluginContext
+): Promise<Plugin> {
+  const builtin = builtinPlugins.find(p => p.name === name)
+  if (builtin && !isLocalPath(name)) {
+    if (Object.keys(options).length > 0) {
+      context.logger.warn(`内置插件 ${name} 不接受选项，已忽略`)
+    }
+    return builtin
+  }
+
+  let module: any
+  try {
+    module = await importPluginModule(name, cwd)
+  } catch (error) {
+    throw new Error(`无法加载插件 ${name}: ${(error as Error).message}`)
+  }
+
+  const exported = module.default ?? module.plugin ?? module
+  const plugin = typeof exported === 'function'
+    ? await (exported as PluginFactory)(options, context)
+    : exported
+
+  if (!isPlugin(plugin)) {
+    throw new Error(`插件 ${name} 必须导出插件对象或返回插件对象的工厂函数`)
+  }
+
+  return plugin
+}
+
+/**
+ * 按声明顺序依次加载插件
+ */
+export async function loadPlugins(
+  configs: PluginConfig[],
+  cwd: string,
+  context: PluginContext
+): Promise<Plugin[]> {
+  const plugins: Plugin[] = []
+
+  for (const config of configs) {
+    plugins.push(await loadPlugin(config, cwd, context))
+  }
+
+  return plugins
+}
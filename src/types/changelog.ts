@@ -32,6 +32,71 @@ export interface GitCommit {
 
   /** 标签 */
   tags?: string[]
+
+  /** 共同作者（已按 .mailmap 解析） */
+  coAuthors?: CommitIdentity[]
+
+  /** 修改的文件（仅在请求时获取） */
+  files?: string[]
+}
+
+/**
+ * 提交覆盖（存储于 git notes）
+ */
+export interface CommitOverride {
+  /** 覆盖主题 */
+  subject?: string
+
+  /** 覆盖类型 */
+  type?: string
+
+  /** 覆盖 scope（空字符串表示移除） */
+  scope?: string
+
+  /** 是否为破坏性变更 */
+  breaking?: boolean
+
+  /** 迁移说明 */
+  migration?: string
+
+  /** 是否在 Changelog 中隐藏 */
+  hidden?: boolean
+}
+
+/**
+ * 提交者身份
+ */
+export interface CommitIdentity {
+  /** 姓名 */
+  name: string
+
+  /** 邮箱 */
+  email: string
+}
+
+/**
+ * 提交 Trailer（Conventional Commits footer）
+ */
+export interface CommitTrailer {
+  /** Token，例如 BREAKING CHANGE、Refs、Reviewed-by */
+  token: string
+
+  /** 值（多行值以换行符连接） */
+  value: string
+}
+
+/**
+ * 回滚信息
+ */
+export interface RevertInfo {
+  /** 被回滚提交的 hash（可能为短 hash） */
+  hash: string
+
+  /** 被回滚提交的标题 */
+  header: string
+
+  /** 被回滚提交的链接 */
+  link?: string
 }
 
 /**
@@ -63,6 +128,9 @@ export interface ChangelogCommit {
     username?: string
   }
 
+  /** 共同作者（Co-authored-by） */
+  coAuthors?: CommitIdentity[]
+
   /** PR 编号 */
   pr?: string
 
@@ -81,6 +149,15 @@ export interface ChangelogCommit {
   /** Breaking change 描述 */
   breakingDescription?: string
 
+  /** 迁移说明 */
+  migration?: string
+
+  /** Footer 中解析出的 trailers */
+  trailers?: CommitTrailer[]
+
+  /** 回滚信息（仅回滚提交） */
+  revert?: RevertInfo
+
   /** 日期 */
   date: string
 
@@ -92,6 +169,44 @@ export interface ChangelogCommit {
 
   /** 是否为安全修复 */
   isSecurity?: boolean
+
+  /** 来源片段文件（相对于工作目录，仅片段条目） */
+  fragment?: string
+
+  /** 展开来源的 squash 提交 hash（仅 squash 展开条目） */
+  squashOf?: string
+
+  /** 在 squash 提交中的序号（仅 squash 展开条目） */
+  squashIndex?: number
+
+  /** 修改的文件（仅在配置了文件规则时获取） */
+  files?: string[]
+}
+
+/**
+ * Changelog 片段（片段目录中带 front matter 的 Markdown 文件）
+ */
+export interface ChangelogFragment {
+  /** 片段文件路径（相对于工作目录） */
+  file: string
+
+  /** 类型 */
+  type: string
+
+  /** Scope */
+  scope?: string
+
+  /** 是否为 breaking change */
+  breaking?: boolean
+
+  /** 关联的 Issues */
+  issues?: string[]
+
+  /** 迁移说明 */
+  migration?: string
+
+  /** 正文（首个非空行作为条目主题） */
+  content: string
 }
 
 /**
@@ -138,6 +253,9 @@ export interface Contributor {
   /** 提交数 */
   commitCount: number
 
+  /** 作为共同作者参与的提交数 */
+  coAuthoredCount?: number
+
   /** GitHub 用户名 */
   username?: string
 
@@ -155,6 +273,12 @@ export interface ChangelogContent {
   /** 发布日期 */
   date: string
 
+  /** 版本简介（手写，来自版本简介文件或附注标签消息） */
+  intro?: string
+
+  /** 正式版本汇总的预发布版本（按版本从旧到新） */
+  prereleases?: PrereleaseRef[]
+
   /** 按类型分组的章节 */
   sections: ChangelogSection[]
 
@@ -177,6 +301,17 @@ export interface ChangelogContent {
   raw?: string
 }
 
+/**
+ * 预发布版本引用
+ */
+export interface PrereleaseRef {
+  /** 版本号 */
+  version: string
+
+  /** 该预发布版本的比较链接 */
+  compareUrl?: string
+}
+
 /**
  * Changelog 统计
  */
@@ -210,6 +345,25 @@ export interface ChangelogStats {
 
   /** PR 数量 */
   prCount?: number
+
+  /** 被排除规则过滤的提交（仅有提交被排除时存在） */
+  excluded?: ExclusionStats
+}
+
+/**
+ * 排除原因
+ */
+export type ExclusionReason = 'author' | 'message' | 'trailer' | 'paths'
+
+/**
+ * 排除统计
+ */
+export interface ExclusionStats {
+  /** 排除的提交总数 */
+  total: number
+
+  /** 各原因排除的提交数 */
+  byReason: Record<ExclusionReason, number>
 }
 
 /**
@@ -2,6 +2,10 @@
  * Changelog 配置类型定义
  */
 
+import type { CommitPreset } from './preset.js'
+import type { Plugin } from '../core/PluginManager.js'
+import type { VersionType } from '../utils/version.js'
+
 /**
  * Changelog 主配置
  */
@@ -12,11 +16,14 @@ export interface ChangelogConfig {
   /** 输出文件路径 */
   output?: string
 
-  /** 输出格式 */
-  format?: 'markdown' | 'json' | 'html'
+  /** 输出格式（内置格式或插件注册的格式化器名称） */
+  format?: OutputFormat
+
+  /** 自定义模板（模板路径或模板配置），配置后所有输出格式都使用模板渲染 */
+  template?: string | TemplateConfig
 
-  /** 自定义模板路径 */
-  template?: string
+  /** 提交规范预设（内置预设名称或自定义预设），未配置 types 时使用预设的类型映射 */
+  preset?: string | CommitPreset
 
   /** 提交类型配置 */
   types?: CommitTypeConfig[]
@@ -24,6 +31,12 @@ export interface ChangelogConfig {
   /** 是否按类型分组 */
   groupByType?: boolean
 
+  /** 章节分类规则（先于按类型分组，第一条匹配的规则生效） */
+  sectionRules?: SectionRule[]
+
+  /** 提交排除规则 */
+  exclude?: ExcludeConfig
+
   /** 是否包含作者 */
   includeAuthors?: boolean
 
@@ -36,6 +49,39 @@ export interface ChangelogConfig {
   /** 是否包含所有提交 */
   includeAllCommits?: boolean
 
+  /** 是否将 squash 合并提交（标题以 PR 引用结尾）中的提交列表展开为独立条目 */
+  expandSquashCommits?: boolean
+
+  /** 提交覆盖所在的 git notes 引用（设为空字符串禁用） */
+  notesRef?: string
+
+  /** 自定义 Issue 引用规则（Jira、Linear、YouTrack、GitLab MR、跨仓库引用等） */
+  issuePatterns?: IssueReferencePattern[]
+
+  /** 版本标签解析配置 */
+  tags?: TagConfig
+
+  /** 预发布版本配置 */
+  prerelease?: PrereleaseConfig
+
+  /** Changelog 片段目录（相对于工作目录，设为空字符串禁用） */
+  fragmentsDir?: string
+
+  /** 版本简介目录，存放 `<version>.md`（相对于工作目录，设为空字符串禁用） */
+  introDir?: string
+
+  /** 发布配置 */
+  release?: ReleaseConfig
+
+  /** 版本递增规则（release、analyze 和 UI 推荐版本时共用） */
+  bumpRules?: BumpRulesConfig
+
+  /** release 时需要更新版本号的文件 */
+  bumpFiles?: BumpFile[]
+
+  /** 插件列表（按声明顺序执行） */
+  plugins?: PluginConfig[]
+
   /** 日期格式 */
   dateFormat?: string
 
@@ -114,6 +160,76 @@ export interface MultiLangConfig {
   translateSections?: boolean
 }
 
+/**
+ * 版本标签解析配置
+ */
+export interface TagConfig {
+  /** 标签前缀，例如 'v'、'@scope/pkg@'（未设置时接受可选的 v 前缀） */
+  prefix?: string
+
+  /** 标签匹配正则，只考虑匹配的标签 */
+  pattern?: string | RegExp
+
+  /** 计算上一个版本时是否跳过预发布标签 */
+  skipPrerelease?: boolean
+}
+
+/**
+ * 预发布版本配置
+ */
+export interface PrereleaseConfig {
+  /**
+   * 正式版本如何处理之前的预发布版本
+   *
+   * - link（默认）：汇总上一个正式版本以来的变更，并列出期间的预发布版本
+   * - collapse：汇总变更，写入时移除被汇总的预发布版本块
+   * - separate：只包含上一个标签以来的变更
+   */
+  mode?: 'link' | 'collapse' | 'separate'
+}
+
+/**
+ * 输出格式
+ */
+export type OutputFormat = 'markdown' | 'json' | 'html' | (string & {})
+
+/**
+ * 内置模板预设名称
+ */
+export type TemplatePresetName = 'keepachangelog' | 'github-release' | 'minimal' | 'corporate'
+
+/**
+ * 插件配置
+ *
+ * - 内置插件名称：'deduplicate'
+ * - 本地路径（相对于 cwd）：'./changelog-plugin.js'
+ * - npm 包名：'changelog-plugin-jira'
+ * - 带选项：['changelog-plugin-jira', { project: 'PAY' }]
+ * - 插件对象
+ */
+export type PluginConfig = string | [string, Record<string, any>] | Plugin
+
+/**
+ * Issue 引用规则
+ */
+export interface IssueReferencePattern {
+  /** 内置规则类型，提供默认的正则和链接模板 */
+  type?: 'jira' | 'linear' | 'youtrack' | 'gitlab-mr' | 'cross-repo'
+
+  /** 匹配正则（覆盖内置规则），命名分组 ref 作为引用文本，否则使用完整匹配 */
+  pattern?: string | RegExp
+
+  /** 项目 key 白名单（jira / linear / youtrack 必填，除非指定 pattern），例如 ['PAY', 'OPS'] */
+  projects?: string[]
+
+  /**
+   * 链接模板
+   * @description 支持 {ref}、{1}..{n}、命名分组、{repo}（仓库 URL）、{host}（仓库域名）和 {issues}（issue 路径，GitLab 为 -/issues）
+   * @example 'https://acme.atlassian.net/browse/{ref}'
+   */
+  url?: string
+}
+
 /**
  * 提交类型配置
  */
@@ -134,6 +250,148 @@ export interface CommitTypeConfig {
   description?: string
 }
 
+/**
+ * 章节分类规则
+ *
+ * 同一规则内配置的条件需全部满足；未匹配任何规则的提交按类型分组。
+ */
+export interface SectionRule {
+  /** 目标章节标题（与类型章节标题相同时合并到该章节） */
+  section: string
+
+  /** 排序优先级（数字越小优先级越高） */
+  priority?: number
+
+  /** 提交类型 */
+  type?: string | string[]
+
+  /** Scope（字符串精确匹配） */
+  scope?: string | string[] | RegExp
+
+  /** 主题正则 */
+  subject?: string | RegExp
+
+  /** 正文正则 */
+  body?: string | RegExp
+
+  /** Trailer 条件：token（不区分大小写）到值正则，true 表示只要求存在 */
+  trailers?: Record<string, string | RegExp | true>
+
+  /** 修改文件 glob，任一文件匹配即可 */
+  files?: string[]
+
+  /** 作者正则，匹配 `姓名 <邮箱>` */
+  author?: string | RegExp
+}
+
+/**
+ * 提交排除规则
+ */
+export interface ExcludeConfig {
+  /** 作者正则，匹配 `姓名 <邮箱>`，例如 /\[bot\]/ */
+  authors?: Array<string | RegExp>
+
+  /** 主题或正文正则，例如 /\[skip changelog\]/i */
+  messages?: Array<string | RegExp>
+
+  /** 是否排除带有 `Changelog: skip` trailer 的提交（默认 true） */
+  skipTrailer?: boolean
+
+  /** 修改的文件全部匹配这些 glob 时排除 */
+  paths?: string[]
+}
+
+/**
+ * 发布配置
+ */
+export interface ReleaseConfig {
+  /** 默认版本类型，'auto' 表示根据上一个标签以来的提交推荐（默认 'patch'） */
+  type?: VersionType | 'auto'
+
+  /** 自动推荐的最低置信度 (0-1)，低于该值时需要 --yes 确认（默认 0.7） */
+  confidenceThreshold?: number
+
+  /** 是否提交 Changelog 和版本文件的变更（默认 true），标签指向该提交 */
+  commit?: boolean
+
+  /** 发布提交消息模板，支持 {version}、{tag}（默认 'chore(release): {version}'） */
+  commitMessage?: string
+
+  /** 标签消息模板，支持 {version}、{tag}（默认 'Release {tag}'） */
+  tagMessage?: string
+
+  /** 是否签名发布提交和标签：true 使用 git 配置的格式，'gpg' 或 'ssh' 指定格式 */
+  sign?: boolean | 'gpg' | 'ssh'
+
+  /** 签名密钥（GPG key ID 或 SSH 公钥路径），默认使用 user.signingkey */
+  signingKey?: string
+}
+
+/**
+ * 版本递增级别
+ */
+export type BumpLevel = 'major' | 'minor' | 'patch'
+
+/**
+ * 版本递增规则
+ */
+export interface BumpRulesConfig {
+  /** 提交类型对应的级别，与默认值 `{ feat: 'minor', fix: 'patch', perf: 'patch' }` 合并 */
+  types?: Record<string, BumpLevel>
+
+  /** 破坏性变更对应的级别（默认 'major'） */
+  breaking?: BumpLevel
+
+  /** trailer 对应的级别，例如 `{ 'Security-Fix': 'patch' }` */
+  trailers?: Record<string, BumpLevel>
+
+  /** 0.x 版本是否降一级递增：破坏性变更递增 minor，新功能递增 patch（默认 true） */
+  preMajor?: boolean
+}
+
+/**
+ * 内置版本文件类型
+ *
+ * - json：顶层 version 字段（package.json、composer.json 等）
+ * - toml：[package]、[project]、[tool.poetry] 中的 version（Cargo.toml、pyproject.toml）
+ * - yaml：顶层 version 字段（Helm Chart.yaml 等）
+ * - plain：整个文件就是版本号（VERSION）
+ */
+export type BumpFileType = 'json' | 'toml' | 'yaml' | 'plain'
+
+/**
+ * 版本文件更新器
+ */
+export interface BumpFileUpdater {
+  /** 读取文件中的版本号 */
+  readVersion?: (contents: string) => string | undefined
+
+  /** 返回写入新版本号后的文件内容 */
+  writeVersion: (contents: string, version: string) => string
+}
+
+/**
+ * 版本文件配置
+ */
+export interface BumpFileConfig {
+  /** 文件路径（相对于工作目录） */
+  file: string
+
+  /** 内置文件类型，未指定 pattern 和 updater 时按文件名识别 */
+  type?: BumpFileType
+
+  /** 版本号正则，替换第一个捕获组的所有匹配，例如 'badge/version-([\\w.-]+)-blue' */
+  pattern?: string | RegExp
+
+  /** 自定义更新器（模块路径，相对于工作目录，或更新器对象） */
+  updater?: string | BumpFileUpdater
+}
+
+/**
+ * 版本文件（字符串表示按文件名识别类型的文件路径）
+ */
+export type BumpFile = string | BumpFileConfig
+
 /**
  * 格式选项
  */
@@ -217,10 +475,16 @@ export interface MonorepoConfig {
  * 模板配置
  */
 export interface TemplateConfig {
-  /** 模板路径 */
-  path: string
+  /** 模板路径（未指定 preset 时必填） */
+  path?: string
+
+  /** 内置模板预设 */
+  preset?: TemplatePresetName
+
+  /** 覆盖的 partial（名称 → 模板文件路径），例如 { commit: './commit.hbs' } */
+  partials?: Partial<Record<'header' | 'section' | 'commit' | 'contributors', string>>
 
-  /** 模板引擎 */
+  /** 模板引擎（默认按扩展名推断：.hbs / .handlebars 为 handlebars，其余为 ejs） */
   engine?: 'ejs' | 'handlebars'
 
   /** 自定义辅助函数 */
@@ -230,6 +494,16 @@ export interface TemplateConfig {
   variables?: Record<string, any>
 }
 
+/**
+ * 默认发布提交消息模板
+ */
+export const DEFAULT_RELEASE_COMMIT_MESSAGE = 'chore(release): {version}'
+
+/**
+ * 默认标签消息模板
+ */
+export const DEFAULT_RELEASE_TAG_MESSAGE = 'Release {tag}'
+
 /**
  * 默认配置
  */
@@ -237,6 +511,7 @@ export const DEFAULT_CONFIG: Required<Omit<ChangelogConfig, 'template' | 'reposi
   cwd: process.cwd(),
   output: 'CHANGELOG.md',
   format: 'markdown',
+  preset: 'angular',
   types: [
     { type: 'feat', section: '✨ 新功能', priority: 1 },
     { type: 'fix', section: '🐛 Bug 修复', priority: 2 },
@@ -248,12 +523,26 @@ export const DEFAULT_CONFIG: Required<Omit<ChangelogConfig, 'template' | 'reposi
     { type: 'build', section: '📦 构建系统', priority: 8 },
     { type: 'ci', section: '👷 CI/CD', priority: 9 },
     { type: 'chore', section: '🔧 其他', priority: 10 },
+    { type: 'revert', section: '⏪ 回滚', priority: 11 },
   ],
   groupByType: true,
+  sectionRules: [],
+  exclude: {},
   includeAuthors: true,
   includePRLinks: true,
   includeCommitHash: true,
   includeAllCommits: false,
+  expandSquashCommits: false,
+  notesRef: 'refs/notes/changelog',
+  issuePatterns: [],
+  tags: {},
+  prerelease: {},
+  fragmentsDir: '.changelog/unreleased',
+  introDir: '.changelog/intros',
+  release: {},
+  bumpRules: {},
+  bumpFiles: [],
+  plugins: [],
   dateFormat: 'YYYY-MM-DD',
   language: 'zh-CN',
   headerFormat: '## [{version}] - {date}',
@@ -290,6 +579,7 @@ export const LANGUAGE_CONFIG: Record<string, Record<string, string>> = {
     build: '📦 构建系统',
     ci: '👷 CI/CD',
     chore: '🔧 其他',
+    revert: '⏪ 回滚',
     breakingChanges: '💥 破坏性变更',
     contributors: '👥 贡献者',
   },
@@ -304,6 +594,7 @@ export const LANGUAGE_CONFIG: Record<string, Record<string, string>> = {
     build: '📦 Build System',
     ci: '👷 CI/CD',
     chore: '🔧 Chores',
+    revert: '⏪ Reverts',
     breakingChanges: '💥 Breaking Changes',
     contributors: '👥 Contributors',
   },
@@ -318,6 +609,7 @@ export const LANGUAGE_CONFIG: Record<string, Record<string, string>> = {
     build: '📦 ビルドシステム',
     ci: '👷 CI/CD',
     chore: '🔧 その他',
+    revert: '⏪ 取り消し',
     breakingChanges: '💥 破壊的変更',
     contributors: '👥 貢献者',
   },
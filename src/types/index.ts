@@ -7,4 +7,5 @@ export * from './changelog.js'
 export * from './stats.js'
 export * from './integrations.js'
 export * from './ai.js'
+export * from './preset.js'
 
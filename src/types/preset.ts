@@ -0,0 +1,68 @@
+/**
+ * 提交规范预设类型定义
+ */
+
+import type { CommitTypeConfig } from './config.js'
+
+/**
+ * 解析后的提交标题
+ */
+export interface ParsedCommitHeader {
+  /** 提交类型（已映射为预设中的类型标识） */
+  type: string
+
+  /** Scope */
+  scope?: string
+
+  /** 主题 */
+  subject: string
+
+  /** 标题中是否带有破坏性变更标记 */
+  breaking?: boolean
+}
+
+/**
+ * 预设的 Lint 规则
+ */
+export interface CommitPresetLintRules {
+  /** 允许的提交类型（默认取预设 types 中的全部类型） */
+  types?: string[]
+
+  /** 主题最大长度 */
+  maxSubjectLength?: number
+
+  /** 是否要求 scope */
+  requireScope?: boolean
+
+  /** 是否允许大写主题 */
+  allowUpperCase?: boolean
+
+  /** 格式说明（用于错误提示） */
+  format?: string
+
+  /** 格式示例（用于修复建议） */
+  example?: string
+}
+
+/**
+ * 提交规范预设
+ */
+export interface CommitPreset {
+  /** 预设名称 */
+  name: string
+
+  /** 预设描述 */
+  description?: string
+
+  /**
+   * 解析提交标题
+   * @returns 不符合该规范时返回 null
+   */
+  parseHeader: (header: string) => ParsedCommitHeader | null
+
+  /** 类型到章节的映射 */
+  types: CommitTypeConfig[]
+
+  /** Lint 规则 */
+  lint?: CommitPresetLintRules
+}
@@ -6,11 +6,17 @@ import { createServer, IncomingMessage, ServerResponse } from 'http'
 import { parse as parseUrl } from 'url'
 import { createChangelogGenerator } from '../core/ChangelogGenerator.js'
 import { createCommitParser } from '../core/CommitParser.js'
+import type { CommitParserConfig } from '../core/CommitParser.js'
 import { createStatsAnalyzer } from '../core/StatsAnalyzer.js'
-import { getGitCommits, getLatestTag, getRepositoryInfo, getGitTags } from '../utils/git-utils.js'
+import { createSectionClassifier } from '../core/SectionClassifier.js'
+import type { SectionClassifier } from '../core/SectionClassifier.js'
+import { createBumpRules } from '../core/BumpRules.js'
+import { resolvePreset, resolvePresetTypes } from '../core/CommitPresets.js'
+import { getGitCommits, getLatestTag, getRepositoryInfo, getVersionTags, parseTagVersion } from '../utils/git-utils.js'
 import { loadConfig } from '../cli/config-loader.js'
 import { logger } from '../utils/logger.js'
 import { getUITemplate } from './template.js'
+import type { ChangelogConfig } from '../types/config.js'
 
 interface RouteHandler {
   (req: IncomingMessage, res: ServerResponse, params?: Record<string, string>): Promise<void>
@@ -48,6 +54,26 @@ function sendError(res: ServerResponse, message: string, status = 500): void {
   sendJSON(res, { error: message }, status)
 }
 
+/**
+ * 从项目配置中读取解析器选项
+ */
+function getParserOptions(config: ChangelogConfig): CommitParserConfig {
+  return {
+    preset: config.preset,
+    issuePatterns: config.issuePatterns,
+  }
+}
+
+/**
+ * 根据项目配置创建章节分类器
+ */
+function getSectionClassifier(config: ChangelogConfig): SectionClassifier {
+  return createSectionClassifier({
+    rules: config.sectionRules,
+    types: resolvePresetTypes(resolvePreset(config.preset), config.types),
+  })
+}
+
 /**
  * 解析请求体
  */
@@ -75,13 +101,16 @@ async function parseBody(req: IncomingMessage): Promise<unknown> {
  */
 registerRoute('GET', '/api/stats', async (req, res) => {
   try {
-    const from = await getLatestTag()
-    const gitCommits = await getGitCommits(from || undefined, 'HEAD')
+    const config = await loadConfig()
+    const classifier = getSectionClassifier(config)
+    const from = await getLatestTag(undefined, config.tags)
+    const gitCommits = await getGitCommits(from || undefined, 'HEAD', undefined, { files: classifier.needsFiles() })
     const repoInfo = await getRepositoryInfo().catch(() => null)
 
     const parser = createCommitParser({
       includeAllCommits: false,
       repositoryInfo: repoInfo || undefined,
+      ...getParserOptions(config),
     })
     const commits = parser.parse(gitCommits)
 
@@ -93,7 +122,7 @@ registerRoute('GET', '/api/stats', async (req, res) => {
     const stats = analyzer.analyze(commits)
 
     // 获取版本列表
-    const tags = await getGitTags()
+    const tags = await getVersionTags(undefined, config.tags)
 
     // 转换为前端需要的格式
     const response = {
@@ -113,6 +142,7 @@ registerRoute('GET', '/api/stats', async (req, res) => {
         author: c.author?.name || 'Unknown',
         date: c.date,
         type: c.type,
+        section: classifier.getSectionTitle(c),
       })),
     }
 
@@ -127,13 +157,17 @@ registerRoute('GET', '/api/stats', async (req, res) => {
  */
 registerRoute('GET', '/api/commits', async (req, res) => {
   try {
-    const from = await getLatestTag()
-    const gitCommits = await getGitCommits(from || undefined, 'HEAD')
+    const config = await loadConfig()
+    const classifier = getSectionClassifier(config)
+    const bumpRules = createBumpRules(config.bumpRules)
+    const from = await getLatestTag(undefined, config.tags)
+    const gitCommits = await getGitCommits(from || undefined, 'HEAD', undefined, { files: classifier.needsFiles() })
     const repoInfo = await getRepositoryInfo().catch(() => null)
 
     const parser = createCommitParser({
       includeAllCommits: true,
       repositoryInfo: repoInfo || undefined,
+      ...getParserOptions(config),
     })
     const commits = parser.parse(gitCommits)
 
@@ -147,6 +181,8 @@ registerRoute('GET', '/api/commits', async (req, res) => {
       email: c.author?.email || '',
       date: c.date,
       breaking: c.breaking,
+      section: classifier.getSectionTitle(c),
+      bump: bumpRules.getCommitLevel(c),
     }))
 
     sendJSON(res, response)
@@ -160,11 +196,15 @@ registerRoute('GET', '/api/commits', async (req, res) => {
  */
 registerRoute('GET', '/api/releases', async (req, res) => {
   try {
-    const tags = await getGitTags()
+    const config = await loadConfig()
+    const classifier = getSectionClassifier(config)
+    const bumpRules = createBumpRules(config.bumpRules)
+    const tags = await getVersionTags(undefined, config.tags)
     const repoInfo = await getRepositoryInfo().catch(() => null)
     const parser = createCommitParser({
       includeAllCommits: false,
       repositoryInfo: repoInfo || undefined,
+      ...getParserOptions(config),
     })
 
     const releases = []
@@ -173,18 +213,25 @@ registerRoute('GET', '/api/releases', async (req, res) => {
       const nextTag = tags[i + 1]
 
       try {
-        const gitCommits = await getGitCommits(nextTag || undefined, tag)
+        const gitCommits = await getGitCommits(nextTag || undefined, tag, undefined, { files: classifier.needsFiles() })
         const commits = parser.parse(gitCommits)
 
-        // 统计提交类型
+        // 统计提交类型和章节
         const typeCount: Record<string, number> = {}
+        const sectionCount: Record<string, number> = {}
         let breakingCount = 0
 
         for (const commit of commits) {
           typeCount[commit.type] = (typeCount[commit.type] || 0) + 1
+          const section = classifier.getSectionTitle(commit)
+          sectionCount[section] = (sectionCount[section] || 0) + 1
           if (commit.breaking) breakingCount++
         }
 
+        // 按递增规则计算相对上一个版本的递增级别
+        const level = bumpRules.getLevel(commits)
+        const previousVersion = nextTag ? parseTagVersion(nextTag, config.tags?.prefix) : null
+
         releases.push({
           version: tag.replace(/^v/, ''),
           tag,
@@ -193,7 +240,9 @@ registerRoute('GET', '/api/releases', async (req, res) => {
           commits: commits.length,
           breaking: breakingCount > 0,
           breakingCount,
+          bump: level && previousVersion ? bumpRules.adjust(level, previousVersion) : level,
           typeCount,
+          sectionCount,
           highlights: commits.slice(0, 3).map(c => c.subject),
         })
       } catch (error) {
@@ -207,6 +256,7 @@ registerRoute('GET', '/api/releases', async (req, res) => {
           breaking: false,
           breakingCount: 0,
           typeCount: {},
+          sectionCount: {},
           highlights: [],
         })
       }
@@ -218,6 +268,26 @@ registerRoute('GET', '/api/releases', async (req, res) => {
   }
 })
 
+/**
+ * 推荐下一个版本
+ */
+registerRoute('GET', '/api/version', async (req, res) => {
+  try {
+    const config = await loadConfig()
+    const from = await getLatestTag(undefined, config.tags)
+    const currentVersion = from ? parseTagVersion(from, config.tags?.prefix) : null
+    if (!from || !currentVersion) {
+      sendError(res, '未找到版本标签', 404)
+      return
+    }
+
+    const { result } = await createChangelogGenerator(config).recommendVersion(currentVersion, from, 'HEAD')
+    sendJSON(res, result)
+  } catch (error: any) {
+    sendError(res, error.message)
+  }
+})
+
 /**
  * 生成 Changelog
  */
@@ -237,11 +307,11 @@ registerRoute('POST', '/api/generate', async (req, res) => {
 
     const generator = createChangelogGenerator(config)
     const version = body.version || 'Unreleased'
-    const from = body.from || (await getLatestTag()) || undefined
+    const from = body.from || (await getLatestTag(undefined, config.tags)) || undefined
     const to = body.to || 'HEAD'
 
     const content = await generator.generate(version, from, to)
-    const formatted = generator.format(content)
+    const formatted = await generator.render(content)
 
     sendJSON(res, { content: formatted })
   } catch (error: any) {
@@ -266,11 +336,13 @@ registerRoute('GET', '/api/config', async (req, res) => {
  */
 registerRoute('GET', '/api/timeline', async (req, res) => {
   try {
-    const tags = await getGitTags()
+    const config = await loadConfig()
+    const tags = await getVersionTags(undefined, config.tags)
     const repoInfo = await getRepositoryInfo().catch(() => null)
     const parser = createCommitParser({
       includeAllCommits: false,
       repositoryInfo: repoInfo || undefined,
+      ...getParserOptions(config),
     })
 
     const timeline = []
@@ -309,7 +381,8 @@ registerRoute('GET', '/api/timeline', async (req, res) => {
  */
 registerRoute('GET', '/api/dependencies', async (req, res) => {
   try {
-    const tags = await getGitTags()
+    const config = await loadConfig()
+    const tags = await getVersionTags(undefined, config.tags)
     const dependencies = []
 
     for (let i = 0; i < Math.min(tags.length, 20); i++) {
@@ -360,6 +433,7 @@ registerRoute('POST', '/api/search', async (req, res) => {
     const body = (await parseBody(req)) as {
       keyword?: string
       types?: string[]
+      sections?: string[]
       scopes?: string[]
       authors?: string[]
       dateRange?: { from?: string; to?: string }
@@ -367,15 +441,22 @@ registerRoute('POST', '/api/search', async (req, res) => {
       pageSize?: number
     }
 
-    const from = await getLatestTag()
-    const gitCommits = await getGitCommits(from || undefined, 'HEAD')
+    const config = await loadConfig()
+    const classifier = getSectionClassifier(config)
+    const from = await getLatestTag(undefined, config.tags)
+    const gitCommits = await getGitCommits(from || undefined, 'HEAD', undefined, { files: classifier.needsFiles() })
     const repoInfo = await getRepositoryInfo().catch(() => null)
 
     const parser = createCommitParser({
       includeAllCommits: true,
       repositoryInfo: repoInfo || undefined,
+      ...getParserOptions(config),
     })
+
+    // 按章节规则分类，并按章节过滤
     const commits = parser.parse(gitCommits)
+      .map(c => ({ ...c, section: classifier.getSectionTitle(c) }))
+      .filter(c => !body.sections || body.sections.includes(c.section))
 
     // 使用 SearchEngine
     const { SearchEngine } = await import('../core/SearchEngine.js')
@@ -420,7 +501,8 @@ registerRoute('POST', '/api/export', async (req, res) => {
       to?: string
     }
 
-    const from = body.from || (await getLatestTag()) || undefined
+    const config = await loadConfig()
+    const from = body.from || (await getLatestTag(undefined, config.tags)) || undefined
     const to = body.to || 'HEAD'
     const gitCommits = await getGitCommits(from, to)
     const repoInfo = await getRepositoryInfo().catch(() => null)
@@ -428,6 +510,7 @@ registerRoute('POST', '/api/export', async (req, res) => {
     const parser = createCommitParser({
       includeAllCommits: true,
       repositoryInfo: repoInfo || undefined,
+      ...getParserOptions(config),
     })
     const commits = parser.parse(gitCommits)
 
@@ -286,15 +286,8 @@ function getCommitsPage(): string {
           <input id="commit-search" type="text" placeholder="搜索提交信息..." onkeyup="filterCommits()" class="input-field w-full pl-10 pr-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700/50 outline-none">
         </div>
       </div>
-      <select id="commit-type-filter" onchange="filterCommits()" class="input-field px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700/50 outline-none">
-        <option value="">全部类型</option>
-        <option value="feat">✨ feat</option>
-        <option value="fix">🐛 fix</option>
-        <option value="docs">📚 docs</option>
-        <option value="refactor">♻️ refactor</option>
-        <option value="perf">⚡ perf</option>
-        <option value="test">🧪 test</option>
-        <option value="chore">🔧 chore</option>
+      <select id="commit-section-filter" onchange="filterCommits()" class="input-field px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700/50 outline-none">
+        <option value="">全部章节</option>
       </select>
       <div id="commit-count" class="text-sm text-gray-500"></div>
     </div>
@@ -483,15 +476,8 @@ function getSearchPage(): string {
           <input id="search-keyword" type="text" placeholder="搜索提交信息..." class="input-field mt-1.5 w-full px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700/50 outline-none">
         </div>
         <div>
-          <label class="text-sm font-medium text-gray-600 dark:text-gray-300">类型</label>
-          <select id="search-type" multiple class="input-field mt-1.5 w-full px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700/50 outline-none">
-            <option value="feat">feat</option>
-            <option value="fix">fix</option>
-            <option value="docs">docs</option>
-            <option value="refactor">refactor</option>
-            <option value="perf">perf</option>
-            <option value="test">test</option>
-            <option value="chore">chore</option>
+          <label class="text-sm font-medium text-gray-600 dark:text-gray-300">章节</label>
+          <select id="search-section" multiple class="input-field mt-1.5 w-full px-4 py-2.5 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700/50 outline-none">
           </select>
         </div>
         <div>
@@ -706,7 +692,7 @@ function getAppScript(): string {
       // Recent Commits
       document.getElementById('recent-commits').innerHTML = (data.recentCommits || []).slice(0, 8).map(c => \`
         <div class="commit-row flex items-center gap-4 p-3 rounded-xl cursor-pointer">
-          <span class="badge badge-\${c.type || 'chore'}">\${c.type || 'other'}</span>
+          <span class="badge badge-\${c.type || 'chore'}">\${c.section || c.type || 'other'}</span>
           <code class="text-xs text-gray-400 font-mono">\${c.hash}</code>
           <span class="flex-1 text-sm truncate">\${c.subject}</span>
           <span class="text-xs text-gray-400">\${c.author}</span>
@@ -764,13 +750,18 @@ function getAppScript(): string {
     async function loadCommits() {
       const data = await api('/commits');
       allCommits = data || [];
+      renderSectionOptions('commit-section-filter', allCommits, '<option value="">全部章节</option>');
       renderCommits(allCommits);
     }
+    function renderSectionOptions(id, commits, first = '') {
+      const sections = [...new Set(commits.map(c => c.section).filter(Boolean))];
+      document.getElementById(id).innerHTML = first + sections.map(section => \`<option value="\${section}">\${section}</option>\`).join('');
+    }
     function renderCommits(commits) {
       document.getElementById('commit-count').textContent = \`共 \${commits.length} 条\`;
       document.getElementById('commits-list').innerHTML = commits.slice(0, 100).map(c => \`
         <div class="commit-row flex items-center gap-4 p-4 hover:bg-gray-50 dark:hover:bg-gray-800/50">
-          <span class="badge badge-\${c.type || 'chore'}">\${c.type || 'other'}</span>
+          <span class="badge badge-\${c.type || 'chore'}">\${c.section || c.type || 'other'}</span>
           <code class="text-xs text-gray-400 font-mono w-20">\${c.shortHash}</code>
           <div class="flex-1 min-w-0">
             <div class="text-sm truncate">\${c.subject}</div>
@@ -783,10 +774,10 @@ function getAppScript(): string {
     }
     function filterCommits() {
       const search = document.getElementById('commit-search').value.toLowerCase();
-      const type = document.getElementById('commit-type-filter').value;
+      const section = document.getElementById('commit-section-filter').value;
       const filtered = allCommits.filter(c => 
         (!search || c.subject?.toLowerCase().includes(search) || c.shortHash?.includes(search)) &&
-        (!type || c.type === type)
+        (!section || c.section === section)
       );
       renderCommits(filtered);
     }
@@ -802,6 +793,7 @@ function getAppScript(): string {
               <div class="font-bold">v\${r.version}</div>
               <div class="text-xs text-gray-400">\${new Date(r.date).toLocaleDateString('zh-CN')}</div>
             </div>
+            \${r.bump ? '<span class="badge bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-300 text-[10px]">' + r.bump + '</span>' : ''}
             \${r.breaking ? '<span class="badge bg-red-100 text-red-600 text-[10px]">BREAKING</span>' : ''}
           </div>
           <div class="flex items-center gap-4 text-sm text-gray-500">
@@ -989,13 +981,15 @@ function getAppScript(): string {
 
     // Search
     let searchCurrentPage = 1;
-    function initSearch() {
-      // Initialize search page
+    async function initSearch() {
+      // 章节选项来自按章节规则分类后的提交
+      if (allCommits.length === 0) allCommits = (await api('/commits')) || [];
+      renderSectionOptions('search-section', allCommits);
     }
     async function performSearch(page = 1) {
       const keyword = document.getElementById('search-keyword').value;
-      const typeSelect = document.getElementById('search-type');
-      const types = Array.from(typeSelect.selectedOptions).map(o => o.value);
+      const sectionSelect = document.getElementById('search-section');
+      const sections = Array.from(sectionSelect.selectedOptions).map(o => o.value);
       const sortValue = document.getElementById('search-sort').value;
       const [sortBy, sortOrder] = sortValue.split('-');
       
@@ -1006,7 +1000,7 @@ function getAppScript(): string {
         method: 'POST',
         body: JSON.stringify({
           keyword,
-          types: types.length > 0 ? types : undefined,
+          sections: sections.length > 0 ? sections : undefined,
           page,
           pageSize: 20,
         })
@@ -1022,7 +1016,7 @@ function getAppScript(): string {
       document.getElementById('search-count').textContent = \`共 \${data.total} 条结果\`;
       document.getElementById('search-results').innerHTML = data.entries.map(c => \`
         <div class="commit-row flex items-center gap-4 p-4 rounded-xl">
-          <span class="badge badge-\${c.type || 'chore'}">\${c.type || 'other'}</span>
+          <span class="badge badge-\${c.type || 'chore'}">\${c.section || c.type || 'other'}</span>
           <code class="text-xs text-gray-400 font-mono w-20">\${c.shortHash}</code>
           <div class="flex-1 min-w-0">
             <div class="text-sm truncate">\${c.subject}</div>
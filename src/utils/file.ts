@@ -63,3 +63,38 @@ export async function backupFile(filePath: string): Promise<string> {
 }
 
 
+
+/**
+ * 将路径 glob 转换为正则表达式
+ *
+ * 与 git `:(glob)` pathspec 一致：`*` 与 `?` 不跨目录，`**` 匹配任意层目录；
+ * 不含通配符的路径同时按目录前缀匹配。
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/^\.\//, '').replace(/\/$/, '')
+  let source = ''
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i]
+    if (char === '*' && normalized[i + 1] === '*') {
+      const slash = normalized[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}${/[*?]/.test(normalized) ? '' : '(?:/.*)?'}$`)
+}
+
+/**
+ * 路径是否匹配任一 glob
+ */
+export function matchesGlob(path: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(path))
+}
@@ -3,9 +3,32 @@
  */
 
 import { execa } from 'execa'
-import type { GitCommit, RepositoryInfo } from '../types/index.js'
+import { existsSync } from 'fs'
+import { resolve } from 'path'
+import semver from 'semver'
+import type { GitCommit, CommitIdentity, RepositoryInfo } from '../types/index.js'
 import { getGlobalCacheManager } from './git-cache.js'
 
+/**
+ * 标签解析选项
+ */
+export interface TagResolveOptions {
+  /** 目标引用，只考虑从该引用可达的标签（默认 HEAD） */
+  to?: string
+
+  /** 标签前缀，未设置时接受可选的 v 前缀 */
+  prefix?: string
+
+  /** 标签匹配正则 */
+  pattern?: string | RegExp
+
+  /** 是否跳过预发布标签 */
+  skipPrerelease?: boolean
+
+  /** 是否排除指向目标引用本身的标签 */
+  excludeTarget?: boolean
+}
+
 /**
  * Git 工具配置
  */
@@ -15,8 +38,25 @@ export interface GitUtilsConfig {
 
   /** 是否启用缓存 */
   enableCache?: boolean
+
+  /** 路径过滤（glob），仅包含修改了这些路径的提交 */
+  paths?: string[]
+
+  /** 是否获取每个提交修改的文件 */
+  files?: boolean
 }
 
+/**
+ * 共同作者 trailer 值正则表达式
+ * 格式: Name <email>
+ */
+export const CO_AUTHOR_REGEX = /^(.+?)\s*<([^>]+)>$/
+
+/**
+ * Co-authored-by trailer 行正则表达式
+ */
+const CO_AUTHOR_TRAILER_REGEX = /^Co-authored-by:(.*)$/gim
+
 /**
  * 执行 Git 命令
  */
@@ -38,19 +78,30 @@ export async function getGitCommits(
   cwd?: string,
   config?: GitUtilsConfig
 ): Promise<GitCommit[]> {
+  // 缓存键包含解析后的提交 hash，分支或 HEAD 前进后不会命中旧结果
+  const cacheKey = config?.enableCache !== false
+    ? { from, to, cwd, paths: config?.paths, files: config?.files, revisions: await execGit(['rev-parse', ...(from ? [from, to] : [to])], cwd) }
+    : null
+
   // 尝试从缓存获取
-  if (config?.enableCache !== false) {
+  if (cacheKey) {
     const cacheManager = getGlobalCacheManager()
-    const cached = await cacheManager.get<GitCommit[]>('git:commits', { from, to, cwd })
+    const cached = await cacheManager.get<GitCommit[]>('git:commits', cacheKey)
     if (cached) {
       return cached
     }
   }
 
   const range = from ? `${from}..${to}` : to
-  const format = '%H%n%h%n%s%n%b%n%an%n%ae%n%ai%n%at%n%D%n---END---'
+  // %aN/%aE 会按 .mailmap 解析作者身份
+  const format = '%H%n%h%n%s%n%b%n%aN%n%aE%n%ai%n%at%n%D%n---END---'
 
-  const output = await execGit(['log', range, `--format=${format}`], cwd)
+  const args = ['log', range, `--format=${format}`]
+  if (config?.paths && config.paths.length > 0) {
+    args.push('--', ...config.paths.map(toPathspec))
+  }
+
+  const output = await execGit(args, cwd)
 
   if (!output) return []
 
@@ -97,15 +148,108 @@ export async function getGitCommits(
     })
   }
 
+  await resolveCoAuthors(commits, cwd)
+
+  if (config?.files) {
+    const files = await getCommitFiles(range, cwd)
+    for (const commit of commits) {
+      commit.files = files.get(commit.hash) ?? []
+    }
+  }
+
   // 保存到缓存
-  if (config?.enableCache !== false) {
+  if (cacheKey) {
     const cacheManager = getGlobalCacheManager()
-    await cacheManager.set('git:commits', { from, to, cwd }, commits)
+    await cacheManager.set('git:commits', cacheKey, commits)
   }
 
   return commits
 }
 
+/**
+ * 获取提交范围内每个提交修改的文件（相对于仓库根目录）
+ */
+export async function getCommitFiles(range: string, cwd?: string): Promise<Map<string, string[]>> {
+  const output = await execGit(['log', range, '--format=%x00%H', '--name-only'], cwd)
+  const files = new Map<string, string[]>()
+
+  for (const block of output.split('\0').filter(Boolean)) {
+    const [hash, ...lines] = block.split('\n')
+    files.set(hash.trim(), lines.map(line => line.trim()).filter(Boolean))
+  }
+
+  return files
+}
+
+/**
+ * 将路径 glob 转换为 git pathspec
+ *
+ * 已带有 pathspec magic（以 `:` 开头）的写法原样保留，其余按 glob 匹配；
+ * 不含通配符的路径按目录前缀匹配。
+ */
+export function toPathspec(pattern: string): string {
+  return pattern.startsWith(':') ? pattern : `:(glob)${pattern}`
+}
+
+/**
+ * 提取提交正文中的共同作者，并按 .mailmap 解析身份
+ */
+async function resolveCoAuthors(commits: GitCommit[], cwd?: string): Promise<void> {
+  const contacts = new Set<string>()
+
+  for (const commit of commits) {
+    if (!commit.body) continue
+
+    const coAuthors: CommitIdentity[] = []
+    for (const trailer of commit.body.matchAll(CO_AUTHOR_TRAILER_REGEX)) {
+      const match = trailer[1].trim().match(CO_AUTHOR_REGEX)
+      if (!match) continue
+
+      coAuthors.push({ name: match[1], email: match[2] })
+      contacts.add(`${match[1]} <${match[2]}>`)
+    }
+
+    if (coAuthors.length > 0) {
+      commit.coAuthors = coAuthors
+    }
+  }
+
+  if (contacts.size === 0) return
+
+  const mailmap = await resolveMailmap(Array.from(contacts), cwd)
+  for (const commit of commits) {
+    commit.coAuthors = commit.coAuthors?.map(identity =>
+      mailmap.get(`${identity.name} <${identity.email}>`) ?? identity
+    )
+  }
+}
+
+/**
+ * 按 .mailmap 解析身份
+ *
+ * 返回 `Name <email>` 到规范身份的映射，git 不支持 check-mailmap 时返回空映射。
+ */
+export async function resolveMailmap(contacts: string[], cwd?: string): Promise<Map<string, CommitIdentity>> {
+  const resolved = new Map<string, CommitIdentity>()
+  if (contacts.length === 0) return resolved
+
+  try {
+    const output = await execGit(['check-mailmap', ...contacts], cwd)
+    const lines = output.split('\n')
+
+    contacts.forEach((contact, index) => {
+      const match = lines[index]?.match(/^(.*?)\s*<([^>]*)>$/)
+      if (match) {
+        resolved.set(contact, { name: match[1], email: match[2] })
+      }
+    })
+  } catch {
+    // 忽略错误，保留原始身份
+  }
+
+  return resolved
+}
+
 /**
  * 获取 Git 标签列表
  */
@@ -114,18 +258,84 @@ export async function getGitTags(cwd?: string): Promise<string[]> {
   return output ? output.split('\n').filter(Boolean) : []
 }
 
+/**
+ * 解析标签中的版本号
+ *
+ * 标签不带指定前缀或不是合法的 semver 版本时返回 null。
+ */
+export function parseTagVersion(tag: string, prefix?: string): string | null {
+  if (prefix) {
+    if (!tag.startsWith(prefix)) return null
+    return semver.valid(tag.slice(prefix.length))
+  }
+  return semver.valid(tag.replace(/^v/, ''))
+}
+
+/**
+ * 获取从目标引用可达的版本标签（按版本号降序）
+ *
+ * 只返回合法的 semver 标签，其它分支上的标签与不匹配前缀/正则的标签会被忽略。
+ */
+export async function getVersionTags(cwd?: string, options: TagResolveOptions = {}): Promise<string[]> {
+  const to = options.to || 'HEAD'
+  const output = await execGit(['tag', '--merged', to], cwd)
+  if (!output) return []
+
+  const excluded = options.excludeTarget
+    ? new Set((await execGit(['tag', '--points-at', to], cwd)).split('\n').filter(Boolean))
+    : new Set<string>()
+  // 去掉 g/y 标志，避免 test() 之间保留 lastIndex
+  const pattern = typeof options.pattern === 'string'
+    ? new RegExp(options.pattern)
+    : options.pattern && new RegExp(options.pattern.source, options.pattern.flags.replace(/[gy]/g, ''))
+
+  return output
+    .split('\n')
+    .filter(tag => tag && !excluded.has(tag) && (!pattern || pattern.test(tag)))
+    .map(tag => ({ tag, version: parseTagVersion(tag, options.prefix) }))
+    .filter((item): item is { tag: string; version: string } =>
+      !!item.version && !(options.skipPrerelease && semver.prerelease(item.version))
+    )
+    .sort((a, b) => semver.rcompare(a.version, b.version))
+    .map(item => item.tag)
+}
+
 /**
  * 获取最新标签
+ *
+ * 只考虑从目标引用（默认 HEAD）可达的版本标签，维护分支上不会取到其它分支的更高版本。
  */
-export async function getLatestTag(cwd?: string): Promise<string | null> {
+export async function getLatestTag(cwd?: string, options?: TagResolveOptions): Promise<string | null> {
   try {
-    const tags = await getGitTags(cwd)
+    const tags = await getVersionTags(cwd, options)
     return tags.length > 0 ? tags[0] : null
   } catch {
     return null
   }
 }
 
+/**
+ * 获取标签日期（YYYY-MM-DD）
+ *
+ * 附注标签取打标签日期，轻量标签取所指提交的日期。
+ */
+export async function getTagDate(tag: string, cwd?: string): Promise<string> {
+  return await execGit(['for-each-ref', '--format=%(creatordate:short)', `refs/tags/${tag}`], cwd)
+}
+
+/**
+ * 获取附注标签的消息（不含签名），轻量标签或标签不存在时返回 null
+ */
+export async function getTagMessage(tag: string, cwd?: string): Promise<string | null> {
+  const output = await execGit(
+    ['for-each-ref', '--format=%(objecttype)%0a%(contents:subject)%0a%0a%(contents:body)', `refs/tags/${tag}`],
+    cwd
+  )
+  const [type, ...message] = output.split('\n')
+
+  return type === 'tag' ? message.join('\n').trim() || null : null
+}
+
 /**
  * 获取远程仓库 URL
  */
@@ -248,19 +458,103 @@ export function generateCompareLink(from: string, to: string, repoInfo: Reposito
   }
 }
 
+/**
+ * 签名选项
+ */
+export interface GitSignOptions {
+  /** 是否签名：true 使用 git 配置的 gpg.format，'gpg' 或 'ssh' 指定签名格式 */
+  sign?: boolean | 'gpg' | 'ssh'
+
+  /** 签名密钥（GPG key ID 或 SSH 公钥路径），默认使用 user.signingkey */
+  signingKey?: string
+}
+
+/**
+ * 标签选项
+ */
+export interface GitTagOptions extends GitSignOptions {
+  /** 标签指向的引用（默认 HEAD） */
+  ref?: string
+}
+
+/**
+ * 指定签名格式的 git 配置参数
+ */
+function signFormatArgs(options: GitSignOptions): string[] {
+  if (options.sign === 'gpg') return ['-c', 'gpg.format=openpgp']
+  if (options.sign === 'ssh') return ['-c', 'gpg.format=ssh']
+  return []
+}
+
 /**
  * 创建 Git 标签
+ *
+ * 签名标签总是附注标签，未提供消息时使用标签名作为消息。
  */
-export async function createGitTag(tag: string, message?: string, cwd?: string): Promise<void> {
-  const args = ['tag']
-  if (message) {
+export async function createGitTag(
+  tag: string,
+  message?: string,
+  cwd?: string,
+  options: GitTagOptions = {}
+): Promise<void> {
+  const args = [...signFormatArgs(options), 'tag']
+  if (options.sign) {
+    args.push(options.signingKey ? `--local-user=${options.signingKey}` : '--sign', tag, '-m', message || tag)
+  } else if (message) {
     args.push('-a', tag, '-m', message)
   } else {
     args.push(tag)
   }
+
+  if (options.ref) {
+    args.push(options.ref)
+  }
+
   await execGit(args, cwd)
 }
 
+/**
+ * 暂存指定文件并创建只包含这些文件的提交
+ *
+ * 已删除且未被跟踪的路径会被忽略。没有可提交的变更时返回 null，否则返回新提交的 hash。
+ */
+export async function createGitCommit(
+  message: string,
+  files: string[],
+  cwd?: string,
+  options: GitSignOptions = {}
+): Promise<string | null> {
+  const paths: string[] = []
+  for (const file of files) {
+    if (existsSync(resolve(cwd || process.cwd(), file)) || await isTrackedFile(file, cwd)) {
+      paths.push(file)
+    }
+  }
+
+  if (paths.length === 0) return null
+
+  await execGit(['add', '-A', '--', ...paths], cwd)
+  const staged = await execGit(['diff', '--cached', '--name-only', '--', ...paths], cwd)
+  if (!staged) return null
+
+  const sign = options.sign ? [options.signingKey ? `--gpg-sign=${options.signingKey}` : '--gpg-sign'] : []
+  await execGit([...signFormatArgs(options), 'commit', ...sign, '-m', message, '--', ...paths], cwd)
+
+  return await execGit(['rev-parse', 'HEAD'], cwd)
+}
+
+/**
+ * 文件是否被 Git 跟踪
+ */
+async function isTrackedFile(file: string, cwd?: string): Promise<boolean> {
+  try {
+    await execGit(['ls-files', '--error-unmatch', '--', file], cwd)
+    return true
+  } catch {
+    return false
+  }
+}
+
 /**
  * 推送标签到远程
  */
@@ -295,3 +589,77 @@ export async function isWorkingTreeClean(cwd?: string): Promise<boolean> {
   return output.length === 0
 }
 
+/**
+ * 解析提交引用为完整 hash
+ */
+export async function resolveCommitHash(ref: string, cwd?: string): Promise<string> {
+  return await execGit(['rev-parse', '--verify', `${ref}^{commit}`], cwd)
+}
+
+/**
+ * 获取提交范围内的 git notes
+ *
+ * 返回提交 hash 到 note 内容的映射，notes 引用不存在时返回空映射。
+ */
+export async function getGitNotes(
+  notesRef: string,
+  from?: string,
+  to = 'HEAD',
+  cwd?: string
+): Promise<Map<string, string>> {
+  const notes = new Map<string, string>()
+  const range = from ? `${from}..${to}` : to
+
+  let output: string
+  try {
+    output = await execGit(['log', range, '--no-notes', `--notes=${notesRef}`, '--format=%H%x1f%N%x1e'], cwd)
+  } catch {
+    return notes
+  }
+
+  for (const record of output.split('\x1e')) {
+    const [hash, note] = record.trim().split('\x1f')
+    if (hash && note?.trim()) {
+      notes.set(hash, note.trim())
+    }
+  }
+
+  return notes
+}
+
+/**
+ * 列出 notes 引用下所有带 note 的提交 hash
+ */
+export async function listGitNotes(notesRef: string, cwd?: string): Promise<string[]> {
+  try {
+    const output = await execGit(['notes', `--ref=${notesRef}`, 'list'], cwd)
+    return output ? output.split('\n').map(line => line.split(' ')[1]).filter(Boolean) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 读取提交的 git note
+ */
+export async function readGitNote(notesRef: string, commit: string, cwd?: string): Promise<string | null> {
+  try {
+    return await execGit(['notes', `--ref=${notesRef}`, 'show', commit], cwd)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 写入提交的 git note（覆盖已有 note）
+ */
+export async function writeGitNote(notesRef: string, commit: string, message: string, cwd?: string): Promise<void> {
+  await execGit(['notes', `--ref=${notesRef}`, 'add', '-f', '-m', message, commit], cwd)
+}
+
+/**
+ * 删除提交的 git note
+ */
+export async function removeGitNote(notesRef: string, commit: string, cwd?: string): Promise<void> {
+  await execGit(['notes', `--ref=${notesRef}`, 'remove', commit], cwd)
+}
@@ -7,6 +7,7 @@ export * from './logger.js'
 export * from './version.js'
 export * from './file.js'
 export * from './git-utils.js'
+export * from './issue-references.js'
 export * from './git-cache.js'
 export * from './errors.js'
 
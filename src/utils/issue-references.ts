@@ -0,0 +1,149 @@
+/**
+ * Issue 引用工具函数
+ */
+
+import type { IssueReferencePattern, RepositoryInfo } from '../types/index.js'
+
+/**
+ * Issue 引用
+ */
+export interface IssueReference {
+  /** 引用文本，例如 PAY-1234、!56、org/lib#12 */
+  ref: string
+
+  /** 链接 */
+  link?: string
+}
+
+/**
+ * 编译后的 Issue 引用规则
+ */
+export interface CompiledIssuePattern {
+  /** 全局匹配正则 */
+  regex: RegExp
+
+  /** 链接模板 */
+  url?: string
+}
+
+/**
+ * 内置引用规则
+ *
+ * jira / linear / youtrack 的 key 格式与 UTF-8、SHA-256 等普通文本无法区分，没有默认正则，必须指定 projects
+ */
+const BUILTIN_ISSUE_PATTERNS: Record<NonNullable<IssueReferencePattern['type']>, { pattern?: string; url?: string }> = {
+  'jira': {},
+  'linear': {},
+  'youtrack': {},
+  'gitlab-mr': { pattern: '(?<![\\w!])(?<ref>!(\\d+))\\b', url: '{repo}/-/merge_requests/{2}' },
+  'cross-repo': { pattern: '(?<![\\w/.-])(?<ref>([\\w.-]+\\/[\\w.-]+)#(\\d+))\\b', url: '{host}/{2}/{issues}/{3}' },
+}
+
+/**
+ * 转义正则特殊字符
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 编译 Issue 引用规则
+ */
+export function compileIssuePatterns(patterns: IssueReferencePattern[] = []): CompiledIssuePattern[] {
+  return patterns.map((pattern) => {
+    const builtin = pattern.type ? BUILTIN_ISSUE_PATTERNS[pattern.type] : undefined
+    if (pattern.type && !builtin) {
+      throw new Error(`未知的 Issue 引用类型: ${pattern.type}`)
+    }
+
+    let source: string
+    let flags = 'g'
+    if (pattern.pattern instanceof RegExp) {
+      source = pattern.pattern.source
+      flags = pattern.pattern.flags.includes('g') ? pattern.pattern.flags : `${pattern.pattern.flags}g`
+    } else if (pattern.pattern) {
+      source = pattern.pattern
+    } else if (builtin && pattern.projects && pattern.projects.length > 0) {
+      source = `\\b(?<ref>(?:${pattern.projects.map(escapeRegExp).join('|')})-\\d+)\\b`
+    } else if (builtin?.pattern) {
+      source = builtin.pattern
+    } else if (builtin) {
+      throw new Error(`${pattern.type} 引用规则需要指定 projects 或 pattern`)
+    } else {
+      throw new Error('Issue 引用规则缺少 pattern 或 type')
+    }
+
+    return {
+      regex: new RegExp(source, flags),
+      url: pattern.url ?? builtin?.url,
+    }
+  })
+}
+
+/**
+ * 获取仓库 URL 的域名，无法解析时返回 undefined
+ */
+function getRepositoryHost(url: string): string | undefined {
+  try {
+    return new URL(url).origin
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * 按模板生成链接
+ *
+ * 模板引用了 {repo} / {host} 但没有仓库信息（或仓库 URL 无法解析）时返回 undefined。
+ * {issues} 为 issue 路径，GitLab 为 `-/issues`，其他平台为 `issues`。
+ */
+export function renderIssueUrl(template: string, match: RegExpMatchArray, repoInfo?: RepositoryInfo): string | undefined {
+  if (!repoInfo && /\{(repo|host)\}/.test(template)) {
+    return undefined
+  }
+
+  const host = repoInfo ? getRepositoryHost(repoInfo.url) : undefined
+  if (!host && template.includes('{host}')) {
+    return undefined
+  }
+
+  const ref = match.groups?.ref ?? match[0]
+  const values: Record<string, string | undefined> = {
+    ...match.groups,
+    ref,
+    repo: repoInfo?.url,
+    host,
+    issues: repoInfo?.type === 'gitlab' ? '-/issues' : 'issues',
+  }
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = /^\d+$/.test(key) ? match[Number(key)] : values[key]
+    return value ?? placeholder
+  })
+}
+
+/**
+ * 提取文本中的 Issue 引用（按引用文本去重）
+ */
+export function extractIssueReferences(
+  text: string,
+  patterns: CompiledIssuePattern[],
+  repoInfo?: RepositoryInfo
+): IssueReference[] {
+  const references = new Map<string, IssueReference>()
+
+  for (const pattern of patterns) {
+    pattern.regex.lastIndex = 0
+    for (const match of text.matchAll(pattern.regex)) {
+      const ref = match.groups?.ref ?? match[0]
+      if (references.has(ref)) continue
+
+      references.set(ref, {
+        ref,
+        link: pattern.url ? renderIssueUrl(pattern.url, match, repoInfo) : undefined,
+      })
+    }
+  }
+
+  return Array.from(references.values())
+}
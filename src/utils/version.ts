@@ -128,3 +128,50 @@ export function getPrereleaseIdentifier(version: string): string | null {
   return parsed.prerelease[0] as string
 }
 
+/**
+ * 获取版本号的正式版本部分（移除预发布标识和构建元数据）
+ */
+export function getBaseVersion(version: string): string {
+  const parsed = parseVersion(version)
+  return parsed ? `${parsed.major}.${parsed.minor}.${parsed.patch}` : version
+}
+
+/**
+ * 获取预发布渠道的下一个版本号
+ *
+ * 同一基础版本、同一渠道的编号在已有版本的基础上递增，从 1 开始，
+ * 例如已有 2.0.0-beta.2 时返回 2.0.0-beta.3，切换到 rc 时返回 2.0.0-rc.1。
+ */
+export function nextPrereleaseVersion(baseVersion: string, channel: string, existing: string[] = []): string {
+  const base = getBaseVersion(baseVersion)
+  let latest = 0
+
+  for (const version of existing) {
+    const parsed = parseVersion(version)
+    if (!parsed || getBaseVersion(version) !== base || String(parsed.prerelease[0]) !== channel) continue
+
+    const number = parsed.prerelease[1]
+    latest = Math.max(latest, typeof number === 'number' ? number : 0)
+  }
+
+  return `${base}-${channel}.${latest + 1}`
+}
+
+/**
+ * 按预发布渠道递增版本号
+ *
+ * prerelease 类型在预发布版本上保持基础版本不变（2.0.0-beta.2 → 2.0.0-rc.1），
+ * 其它类型先按类型递增基础版本，再取该渠道的下一个编号。
+ */
+export function incrementPrereleaseVersion(
+  version: string,
+  type: VersionType,
+  channel: string,
+  existing: string[] = []
+): string {
+  const base = type === 'prerelease' && isPrerelease(version)
+    ? getBaseVersion(version)
+    : getBaseVersion(incrementVersion(version, type, channel))
+
+  return nextPrereleaseVersion(base, channel, [...existing, version])
+}
@@ -9,6 +9,6 @@ export default defineConfig({
   clean: true,
   treeshake: true,
   minify: false,
-  external: ['@ldesign/kit', 'chalk', 'commander', 'ejs', 'execa', 'fs-extra', 'ora', 'boxen', 'cli-table3', 'dayjs']
+  external: ['@ldesign/kit', 'chalk', 'commander', 'ejs', 'handlebars', 'execa', 'fs-extra', 'ora', 'boxen', 'cli-table3', 'dayjs']
 })
 